@@ -1,18 +1,25 @@
 import { useEffect, useRef, useState } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import { Cloud, RefreshCw, Trash2, Upload, ChevronUp, ChevronDown, ZoomIn } from 'lucide-react';
+import { Cloud, RefreshCw, Trash2, Upload, ChevronUp, ChevronDown, ZoomIn, Link, Share2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ThemeProvider } from '@/components/theme-provider';
-import { GpxPoint, ProcessedTrack, UserSettings } from '@/types';
+import { GpxPoint, ProcessedTrack, UserSettings, ImportProgressItem, ImportSource, PreparedTrack } from '@/types';
 import { TrackProfile } from '@/components/ui/track-profile';
+import { ClimbList } from '@/components/ui/climb-list';
+import { ActivitySummary } from '@/components/ui/activity-summary';
 import { TrackList } from '@/components/ui/track-list';
 import { WeatherTable } from '@/components/ui/weather-table';
 import { AboutSection } from '@/components/ui/about-section';
 import { SettingsSection } from '@/components/ui/settings-section';
+import { DropZoneOverlay, ImportProgress } from '@/components/ui/import-overlay';
+import { ImportUrlDialog } from '@/components/ui/import-url-dialog';
+import { SharedPlanBanner } from '@/components/ui/shared-plan-banner';
+import { Toaster } from '@/components/ui/toaster';
+import { useToast } from '@/hooks/use-toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Info, List, BarChart2, Settings as SettingsIcon } from "lucide-react";
+import { Info, List, BarChart2, Mountain, Activity, Settings as SettingsIcon } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import {
   AlertDialog,
@@ -25,7 +32,18 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import {
-  processGpxFile,
+  getTrackFileName,
+  detectTextFormat,
+  isArchiveFile,
+  extractArchive,
+  TRACK_FILE_ACCEPT
+} from '@/lib/import';
+import { prepareTracksInWorker } from '@/lib/track-worker-client';
+import { createShareUrl, hasSharedPlan, parseShareHash } from '@/lib/share';
+import { detectClimbs, getClimbStyle } from '@/lib/climbs';
+import { estimatePace, isEstimateCurrent } from '@/lib/pace';
+import { getStops, MAX_LISTED_STOPS } from '@/lib/activity';
+import {
   getTrackPoints,
   fetchWeather,
   calculateBounds,
@@ -33,14 +51,27 @@ import {
   saveTracks,
   loadSettings,
   saveSettings,
-  clearWeatherCache
+  clearWeatherCache,
+  splitSegments,
+  getWeatherPoints,
+  getTrackStats,
+  WAYPOINT_ICONS,
+  WAYPOINT_LABELS,
+  TRACK_COLORS,
+  formatDuration,
+  MAP_STYLE_URL
 } from '@/lib/utils';
 
 function App() {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const cursorMarker = useRef<maplibregl.Marker | null>(null);
+  const waypointMarkers = useRef<maplibregl.Marker[]>([]);
+  const stopMarkers = useRef<maplibregl.Marker[]>([]);
   const initialZoomDone = useRef(false);
+  const dragDepth = useRef(0);
+  const importControllers = useRef<AbortController[]>([]);
+  const importProgressTimer = useRef<ReturnType<typeof setTimeout>>();
   const [tracks, setTracks] = useState<ProcessedTrack[]>([]);
   const [selectedTrack, setSelectedTrack] = useState<ProcessedTrack | null>(null);
   const [activeTab, setActiveTab] = useState<string>("profile");
@@ -48,6 +79,12 @@ function App() {
   const [panelOpen, setPanelOpen] = useState(true);
   const [showDemoDialog, setShowDemoDialog] = useState(false);
   const [settings, setSettings] = useState<UserSettings>(loadSettings());
+  const [dragActive, setDragActive] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgressItem[]>([]);
+  const [showUrlDialog, setShowUrlDialog] = useState(false);
+  // Tracks opened from a share link are shown but not saved to the library
+  const [viewingSharedPlan, setViewingSharedPlan] = useState(() => hasSharedPlan(window.location.hash));
+  const { toast } = useToast();
 
   // Select first track by default when none is selected
   useEffect(() => {
@@ -56,8 +93,14 @@ function App() {
     }
   }, [tracks, selectedTrack]);
 
-  // Load saved tracks from localStorage when the app starts
+  // Load saved tracks from localStorage when the app starts, or the tracks of
+  // a share link
   useEffect(() => {
+    if (hasSharedPlan(window.location.hash)) {
+      openSharedPlan(window.location.hash);
+      return;
+    }
+
     const savedTracks = loadTracks();
     if (savedTracks.length > 0) {
       // Ensure all tracks have required timestamp fields
@@ -73,6 +116,7 @@ function App() {
       // If no tracks, show demo data dialog
       setShowDemoDialog(true);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
@@ -80,7 +124,7 @@ function App() {
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: 'https://api.maptiler.com/maps/topo-v2/style.json?key=r0T8W9TTH8XCCGoLL9gE',
+      style: MAP_STYLE_URL,
       center: [0, 0],
       zoom: 1,
     });
@@ -118,8 +162,8 @@ function App() {
   }, [tracks]);
 
   useEffect(() => {
-    saveSettings(settings);
-  }, [settings]);
+    if (!viewingSharedPlan) saveSettings(settings);
+  }, [settings, viewingSharedPlan]);
 
   const prevForecastRef = useRef(settings.forecastDate);
   useEffect(() => {
@@ -130,54 +174,215 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [settings.forecastDate]);
 
+  // Recompute ascent and descent when the elevation noise filter changes, the
+  // time estimate when the pace settings change, and both for tracks saved
+  // before they were computed
+  useEffect(() => {
+    const statsOutdated = (track: ProcessedTrack) =>
+      track.stats?.elevationThreshold !== settings.elevationThreshold ||
+      (track.stats.minElevation !== undefined && !track.stats.gradientDistances);
+    const estimateOutdated = (track: ProcessedTrack) =>
+      !isEstimateCurrent(track.estimate, settings.pace) ||
+      track.estimate?.sampledPointTimes.length !== (track.sampledPoints?.length ?? 0);
+    if (!tracks.some(track => statsOutdated(track) || estimateOutdated(track))) return;
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files) return;
+    const updatedTracks = tracks.map(track => ({
+      ...track,
+      stats: statsOutdated(track) ? getTrackStats(track.points, settings.elevationThreshold) : track.stats,
+      estimate: estimateOutdated(track) ? estimatePace(track, settings.pace) : track.estimate
+    }));
+    setTracks(updatedTracks);
+    persistTracks(updatedTracks);
+    setSelectedTrack(prev => (prev ? updatedTracks.find(track => track.id === prev.id) ?? prev : prev));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tracks, settings.elevationThreshold, settings.pace]);
+
+
+  // Parse, validate and sample a track file or URL in the track worker, one
+  // track per <trk>/<rte>/placemark, then fetch its weather. Throws when the
+  // file has no usable track or the import is cancelled.
+  const createTracks = async (
+    { source, name: sourceName, group }: ImportSource,
+    timestamp: number,
+    options: Parameters<typeof prepareTracksInWorker>[1] = {}
+  ): Promise<{ tracks: ProcessedTrack[]; warnings: string[] }> => {
+    const { tracks: preparedTracks, warnings } = await prepareTracksInWorker(source, {
+      ...options,
+      elevationThreshold: settings.elevationThreshold
+    });
+    const fileName = getTrackFileName(sourceName);
+
+    // Files with several tracks are named after each track
+    const namedTracks = preparedTracks.map((preparedTrack, index) => ({
+      ...preparedTrack,
+      name: preparedTracks.length > 1 ? preparedTrack.name || `${fileName} (${index + 1})` : fileName
+    }));
+    const newTracks = await fetchTrackWeather(namedTracks, timestamp, settings.forecastDate);
+
+    return { tracks: newTracks.map(track => ({ ...track, group })), warnings };
+  };
+
+  // Fetch the weather at the sampled points of prepared tracks
+  const fetchTrackWeather = (
+    preparedTracks: PreparedTrack[],
+    timestamp: number,
+    forecastDate: string
+  ): Promise<ProcessedTrack[]> =>
+    Promise.all(
+      preparedTracks.map(async ({ name, points, waypoints, sampledPoints, stats }) => {
+        const weatherData = await Promise.all(
+          sampledPoints.map(point => fetchWeather(point.lat, point.lon, forecastDate))
+        );
+
+        return {
+          id: crypto.randomUUID(),
+          name,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          points,
+          waypoints,
+          stats,
+          sampledPoints,
+          weatherData,
+          weatherFetchedAt: timestamp
+        };
+      })
+    );
+
+  // Save tracks to the library, unless they come from a share link
+  const persistTracks = (updatedTracks: ProcessedTrack[]) => {
+    if (!viewingSharedPlan) saveTracks(updatedTracks);
+  };
+
+  // Show the tracks of a share link with its forecast date and tab
+  const openSharedPlan = async (hash: string) => {
+    setLoading(true);
+    try {
+      const plan = parseShareHash(hash);
+      setSettings(prev => ({ ...prev, forecastDate: plan.forecastDate }));
+      if (plan.tab && ['profile', 'climbs', 'activity', 'tracks', 'weather', 'settings', 'about'].includes(plan.tab)) {
+        setActiveTab(plan.tab);
+      }
+
+      const preparedTracks = plan.tracks.map(track => ({
+        ...track,
+        sampledPoints: getWeatherPoints(track.points),
+        stats: getTrackStats(track.points, settings.elevationThreshold)
+      }));
+      const sharedTracks = await fetchTrackWeather(preparedTracks, Date.now(), plan.forecastDate);
+      setTracks(sharedTracks);
+      setSelectedTrack(sharedTracks[0] ?? null);
+    } catch (error) {
+      console.error('Error opening shared plan:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not open the shared plan',
+        description: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Add the shared tracks to the library and leave the shared view
+  const saveSharedPlan = () => {
+    const library = [...loadTracks(), ...tracks];
+    saveTracks(library);
+    setTracks(library);
+    setViewingSharedPlan(false);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    toast({ title: `Saved ${tracks.length} track${tracks.length !== 1 ? 's' : ''} to your library` });
+  };
+
+  // Go back to the library, reloading it like on start
+  const closeSharedPlan = () => {
+    window.location.replace(window.location.pathname + window.location.search);
+  };
+
+  const handleShare = async () => {
+    let url: string;
+    try {
+      url = createShareUrl(tracks, settings.forecastDate, activeTab);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not create a share link',
+        description: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: 'Share link copied',
+        description: `Opens ${tracks.length} track${tracks.length !== 1 ? 's' : ''} with the forecast for ${settings.forecastDate}. Long tracks are simplified to keep the link short.`
+      });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      window.prompt('Copy the share link:', url);
+    }
+  };
 
+  // Import files or URLs, reporting the progress of each one
+  const importSources = async (items: ImportSource[]) => {
+    if (!items.length) return;
+
+    // A new import takes over the progress list, the previous one must not clear it
+    clearTimeout(importProgressTimer.current);
     setLoading(true);
+
+    // Unpack ZIP archives first so every file inside gets its own progress
+    // entry. An unreadable archive is reported like any other failed file.
+    const sources: Array<ImportSource & { error?: unknown }> = (await Promise.all(
+      items.map(async item => {
+        if (!isArchiveFile(item.name)) return [item];
+        try {
+          return await extractArchive(item.source, item.name);
+        } catch (error) {
+          return [{ ...item, error }];
+        }
+      })
+    )).flat();
+
+    setImportProgress(sources.map(({ name }) => ({ name, status: 'pending' })));
+    const updateProgress = (index: number, update: Partial<ImportProgressItem>) => {
+      setImportProgress(prev => prev.map((item, i) => (i === index ? { ...item, ...update } : item)));
+    };
+    importControllers.current = sources.map(() => new AbortController());
+
     try {
       const timestamp = Date.now();
       
-      const newTracks = await Promise.all(
-        Array.from(files).map(async (file) => {
-          const points = await processGpxFile(file);
-          
-          // Get key elevation points (peaks, valleys, etc.)
-          const keyPoints = getTrackPoints(points);
-          
-          // Limit to 10 points for weather API calls
-          const sampledPoints = keyPoints.length > 10 
-            ? [
-                keyPoints[0], // Always include start
-                ...keyPoints.slice(1, keyPoints.length - 1).slice(0, 8), // Take up to 8 middle points
-                keyPoints[keyPoints.length - 1] // Always include end
-              ]
-            : keyPoints;
-          
-          // Fetch weather data for each sampled point
-          const weatherData = await Promise.all(
-            sampledPoints.map(point => fetchWeather(point.lat, point.lon, settings.forecastDate))
-          );
-
-          return {
-            id: crypto.randomUUID(),
-            name: file.name.replace(/.gpx$/i, ''),
-            createdAt: timestamp,
-            updatedAt: timestamp,
-            points,
-            sampledPoints,
-            weatherData,
-            weatherFetchedAt: timestamp
-          };
+      // A bad file must not abort the others, so settle every import
+      const results = await Promise.allSettled(
+        sources.map(async ({ error, ...source }, index) => {
+          updateProgress(index, { status: 'processing' });
+          try {
+            if (error) throw error;
+            const result = await createTracks(source, timestamp, {
+              signal: importControllers.current[index].signal,
+              onProgress: (stage, progress) => updateProgress(index, { stage, progress })
+            });
+            updateProgress(index, { status: 'done', progress: 1 });
+            return result;
+          } catch (error) {
+            const cancelled = error instanceof DOMException && error.name === 'AbortError';
+            updateProgress(index, { status: cancelled ? 'cancelled' : 'error' });
+            throw error;
+          }
         })
       );
 
+      const newTracks = results.flatMap(result => (result.status === 'fulfilled' ? result.value.tracks : []));
+      showImportSummary(sources.map(({ name }) => name), results);
+
       const updatedTracks = [...tracks, ...newTracks];
       setTracks(updatedTracks);
       
       // Save to localStorage
-      saveTracks(updatedTracks);
+      persistTracks(updatedTracks);
 
       // If we have new tracks, select the first one and switch to profile tab
       if (newTracks.length > 0) {
@@ -197,9 +402,135 @@ function App() {
       console.error('Error processing files:', error);
     } finally {
       setLoading(false);
+      importControllers.current = [];
+      // Leave the final status on screen for a moment
+      importProgressTimer.current = setTimeout(() => setImportProgress([]), 2500);
     }
   };
 
+  // Tell the user what was imported and what went wrong, file by file
+  const showImportSummary = (
+    names: string[],
+    results: PromiseSettledResult<{ tracks: ProcessedTrack[]; warnings: string[] }>[]
+  ) => {
+    const problems: string[] = [];
+    let trackCount = 0;
+    let fileCount = 0;
+    results.forEach((result, index) => {
+      const name = getTrackFileName(names[index]);
+      if (result.status === 'fulfilled') {
+        fileCount += 1;
+        trackCount += result.value.tracks.length;
+        result.value.warnings.forEach(warning => problems.push(`${name}: ${warning}`));
+      } else {
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        if (!(result.reason instanceof DOMException && result.reason.name === 'AbortError')) {
+          console.error(`Error processing ${name}:`, result.reason);
+        }
+        problems.push(`${name}: ${message}`);
+      }
+    });
+
+    toast({
+      variant: fileCount === 0 ? 'destructive' : 'default',
+      title: fileCount === 0
+        ? `Could not import ${names.length === 1 ? 'the file' : `any of the ${names.length} files`}`
+        : `Imported ${trackCount} track${trackCount !== 1 ? 's' : ''} from ${fileCount} of ${names.length} file${names.length !== 1 ? 's' : ''}`,
+      description: problems.length > 0 && (
+        <ul className="list-disc pl-4 space-y-1">
+          {problems.map((problem, idx) => <li key={idx}>{problem}</li>)}
+        </ul>
+      )
+    });
+  };
+
+  const cancelImport = (index: number) => importControllers.current[index]?.abort();
+
+  const importFiles = (files: File[]) =>
+    importSources(files.map(file => ({ source: file, name: file.name })));
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files) return;
+
+    await importFiles(Array.from(files));
+    // Allow uploading the same file again
+    event.target.value = '';
+  };
+
+  const handleUrlImport = (url: string) => importSources([{ source: url, name: url }]);
+
+  // Drag and drop anywhere over the map. Child elements fire their own
+  // enter/leave events, so dragDepth counts them to know when the drag really left.
+  const hasFiles = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth.current += 1;
+    setDragActive(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setDragActive(false);
+  };
+
+  // Files dropped or pasted during an import are not queued, say so
+  const showImportBusy = () => {
+    toast({
+      title: 'An import is already in progress',
+      description: 'Add more files once it has finished.'
+    });
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth.current = 0;
+    setDragActive(false);
+    if (loading) {
+      showImportBusy();
+      return;
+    }
+    importFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // Import files or GPX/KML/TCX/GeoJSON text pasted outside of text fields.
+  // The listener is added once and reads the current state through the ref.
+  const pasteHandler = useRef<(event: ClipboardEvent) => void>(() => {});
+  pasteHandler.current = (event: ClipboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+    const text = event.clipboardData?.getData('text') || '';
+    const format = detectTextFormat(text);
+    const files = Array.from(event.clipboardData?.files || []);
+    if (!files.length && !format) return;
+
+    event.preventDefault();
+    if (loading) {
+      showImportBusy();
+    } else if (files.length) {
+      importFiles(files);
+    } else {
+      importFiles([new File([text], `Pasted track.${format}`, { type: 'text/plain' })]);
+    }
+  };
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => pasteHandler.current(event);
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
   const handleRefresh = async () => {
     setLoading(true);
     try {
@@ -245,7 +576,7 @@ function App() {
       }
       
       // Save to localStorage
-      saveTracks(updatedTracks);
+      persistTracks(updatedTracks);
     } catch (error) {
       console.error('Error refreshing weather:', error);
     } finally {
@@ -257,7 +588,7 @@ function App() {
     // Clear tracks from state and localStorage
     setTracks([]);
     setSelectedTrack(null);
-    saveTracks([]);
+    persistTracks([]);
     clearWeatherCache();
     
     // Remove cursor marker if it exists
@@ -305,16 +636,20 @@ function App() {
     
     const updatedTracks = tracks.filter(t => !trackIdsToDelete.includes(t.id));
     setTracks(updatedTracks);
-    saveTracks(updatedTracks);
+    persistTracks(updatedTracks);
     
     // If we deleted the selected track, clear it
     if (selectedTrack && trackIdsToDelete.includes(selectedTrack.id)) {
       setSelectedTrack(null);
     }
     
-    // Clean up map layers for each deleted track
+    removeTrackLayers(trackIdsToDelete);
+  };
+
+  // Clean up the map layers of tracks that are no longer in the list
+  const removeTrackLayers = (trackIds: string[]) => {
     if (map.current) {
-      trackIdsToDelete.forEach(id => {
+      trackIds.forEach(id => {
         try {
           const trackSourceId = `track-${id}`;
           const trackLayerId = `track-line-${id}`;
@@ -322,6 +657,14 @@ function App() {
           const weatherSpriteId = `weather-sprite-${id}`;
           const weatherArrowId = `weather-arrow-${id}`;
           const weatherLabelId = `weather-label-${id}`;
+
+          // The climbs belong to the selected track, which may be among them
+          if (map.current?.getLayer('track-climbs-line')) {
+            map.current.removeLayer('track-climbs-line');
+          }
+          if (map.current?.getSource('track-climbs')) {
+            map.current.removeSource('track-climbs');
+          }
           
           // Remove weather layers if they exist
           if (map.current?.getLayer(weatherLabelId)) {
@@ -351,6 +694,20 @@ function App() {
     }
   };
 
+  // Show the tracks and settings of a restored workspace backup
+  const handleRestore = (restoredTracks: ProcessedTrack[], restoredSettings: UserSettings) => {
+    const restoredIds = new Set(restoredTracks.map(track => track.id));
+    removeTrackLayers(tracks.filter(track => !restoredIds.has(track.id)).map(track => track.id));
+    setTracks(restoredTracks);
+    setSelectedTrack(restoredTracks[0] ?? null);
+    setSettings(restoredSettings);
+    // The restored library replaces a shared plan on screen
+    if (viewingSharedPlan) {
+      setViewingSharedPlan(false);
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  };
+
   // Handle cursor position changes from the profile view
   const handleCursorChange = (point: GpxPoint | null) => {
     // Remove existing cursor marker
@@ -452,8 +809,10 @@ function App() {
                 type: 'Feature',
                 properties: {},
                 geometry: {
-                  type: 'LineString',
-                  coordinates: track.points.map(p => [p.lon, p.lat])
+                  type: 'MultiLineString',
+                  coordinates: splitSegments(track.points).map(segment =>
+                    segment.map(p => [p.lon, p.lat])
+                  )
                 }
               }
             });
@@ -467,16 +826,7 @@ function App() {
                 'line-cap': 'round'
               },
               paint: {
-                'line-color': [
-                  'match',
-                  ['%', trackIndex, 5],
-                  0, '#FF6B6B',
-                  1, '#4ECDC4',
-                  2, '#45B7D1',
-                  3, '#96CEB4',
-                  4, '#FFEEAD',
-                  '#FF6B6B'
-                ],
+                'line-color': TRACK_COLORS[trackIndex % TRACK_COLORS.length],
                 'line-width': isSelected ? 6 : 4,
                 'line-opacity': isSelected ? 1 : 0.7
               }
@@ -560,16 +910,7 @@ function App() {
                   source: weatherSourceId,
                   paint: {
                     'circle-radius': 8,
-                    'circle-color': [
-                      'match',
-                      ['%', ['get', 'trackIndex'], 5],
-                      0, '#FF6B6B',
-                      1, '#4ECDC4',
-                      2, '#45B7D1',
-                      3, '#96CEB4',
-                      4, '#FFEEAD',
-                      '#FF6B6B'
-                    ],
+                    'circle-color': TRACK_COLORS[trackIndex % TRACK_COLORS.length],
                     'circle-opacity': 0.7,
                     'circle-stroke-width': 2,
                     'circle-stroke-color': '#ffffff'
@@ -627,6 +968,40 @@ function App() {
             console.error(`Error adding track ${track.id}:`, error);
           }
         });
+
+        // Climbs of the selected track as coloured sections over its line. The
+        // source id makes the clean-up above remove it on every render.
+        if (selectedTrack) {
+          map.current?.addSource('track-climbs', {
+            type: 'geojson',
+            data: {
+              type: 'FeatureCollection',
+              features: detectClimbs(selectedTrack.points).map(climb => ({
+                type: 'Feature',
+                properties: { color: getClimbStyle(climb.category).color },
+                geometry: {
+                  type: 'LineString',
+                  coordinates: selectedTrack.points
+                    .slice(climb.startIndex, climb.endIndex + 1)
+                    .map(p => [p.lon, p.lat])
+                }
+              }))
+            }
+          });
+          map.current?.addLayer({
+            id: 'track-climbs-line',
+            type: 'line',
+            source: 'track-climbs',
+            layout: {
+              'line-join': 'round',
+              'line-cap': 'round'
+            },
+            paint: {
+              'line-color': ['get', 'color'],
+              'line-width': 6
+            }
+          });
+        }
       } catch (error) {
         console.error("Error rendering tracks:", error);
       }
@@ -654,6 +1029,92 @@ function App() {
     return () => {};
   }, [tracks, selectedTrack]);
 
+  // Show the waypoints of every track as POI markers with a popup
+  useEffect(() => {
+    waypointMarkers.current.forEach(marker => marker.remove());
+    waypointMarkers.current = [];
+    if (!map.current) return;
+
+    tracks.forEach(track => {
+      track.waypoints?.forEach(waypoint => {
+        const el = document.createElement('div');
+        el.className = 'waypoint-marker';
+        el.textContent = WAYPOINT_ICONS[waypoint.category];
+        el.style.fontSize = '20px';
+        el.style.lineHeight = '1';
+        el.style.cursor = 'pointer';
+        el.style.filter = 'drop-shadow(0 0 2px rgba(255,255,255,0.9))';
+
+        // Build the popup with text nodes, names come from user files
+        const content = document.createElement('div');
+        const title = document.createElement('strong');
+        title.textContent = waypoint.name || WAYPOINT_LABELS[waypoint.category];
+        content.appendChild(title);
+        const details = [
+          waypoint.description,
+          waypoint.distance !== undefined ? `km ${waypoint.distance.toFixed(1)}` : undefined,
+          waypoint.ele !== undefined ? `${waypoint.ele.toFixed(0)} m` : undefined
+        ].filter(Boolean);
+        details.forEach(detail => {
+          const line = document.createElement('div');
+          line.textContent = detail!;
+          content.appendChild(line);
+        });
+
+        const marker = new maplibregl.Marker({ element: el })
+          .setLngLat([waypoint.lon, waypoint.lat])
+          .setPopup(new maplibregl.Popup({ offset: 12 }).setDOMContent(content))
+          .addTo(map.current!);
+        waypointMarkers.current.push(marker);
+      });
+    });
+  }, [tracks]);
+
+  // Mark the longest stops of the selected recorded track, numbered like the
+  // list in the activity tab
+  useEffect(() => {
+    stopMarkers.current.forEach(marker => marker.remove());
+    stopMarkers.current = [];
+    if (!map.current || !selectedTrack) return;
+
+    getStops(selectedTrack.points).slice(0, MAX_LISTED_STOPS).forEach((stop, idx) => {
+      const el = document.createElement('div');
+      el.className = 'stop-marker';
+      el.textContent = String(idx + 1);
+      el.style.width = '20px';
+      el.style.height = '20px';
+      el.style.borderRadius = '50%';
+      el.style.background = '#dc2626';
+      el.style.border = '2px solid #fff';
+      el.style.color = '#fff';
+      el.style.fontSize = '11px';
+      el.style.fontWeight = '600';
+      el.style.display = 'flex';
+      el.style.alignItems = 'center';
+      el.style.justifyContent = 'center';
+      el.style.cursor = 'pointer';
+
+      const content = document.createElement('div');
+      const title = document.createElement('strong');
+      title.textContent = `Stop ${idx + 1}: ${formatDuration(stop.duration)}`;
+      content.appendChild(title);
+      [
+        `km ${stop.distance.toFixed(1)}`,
+        new Date(stop.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      ].forEach(detail => {
+        const line = document.createElement('div');
+        line.textContent = detail;
+        content.appendChild(line);
+      });
+
+      const marker = new maplibregl.Marker({ element: el })
+        .setLngLat([stop.lon, stop.lat])
+        .setPopup(new maplibregl.Popup({ offset: 12 }).setDOMContent(content))
+        .addTo(map.current!);
+      stopMarkers.current.push(marker);
+    });
+  }, [selectedTrack]);
+
   // Handle loading demo GPX data
   const loadDemoData = async () => {
     setLoading(true);
@@ -671,45 +1132,12 @@ function App() {
       
       const timestamp = Date.now();
       
-      const newTracks = await Promise.all(
-        files.map(async (file) => {
-          const points = await processGpxFile(file);
-          
-          // Get key elevation points (peaks, valleys, etc.)
-          const keyPoints = getTrackPoints(points);
-          
-          // Limit to 10 points for weather API calls
-          const sampledPoints = keyPoints.length > 10 
-            ? [
-                keyPoints[0], // Always include start
-                ...keyPoints.slice(1, keyPoints.length - 1).slice(0, 8), // Take up to 8 middle points
-                keyPoints[keyPoints.length - 1] // Always include end
-              ]
-            : keyPoints;
-          
-          // Fetch weather data for each sampled point
-          const weatherData = await Promise.all(
-            sampledPoints.map(point => fetchWeather(point.lat, point.lon, settings.forecastDate))
-          );
-
-          // Extract file name without extension and path
-          const name = file.split('/').pop()?.replace(/.gpx$/i, '') || file;
-
-          return {
-            id: crypto.randomUUID(),
-            name,
-            createdAt: timestamp,
-            updatedAt: timestamp,
-            points,
-            sampledPoints,
-            weatherData,
-            weatherFetchedAt: timestamp
-          };
-        })
-      );
+      const newTracks = (await Promise.all(
+        files.map(file => createTracks({ source: file, name: file }, timestamp))
+      )).flatMap(result => result.tracks);
 
       setTracks(newTracks);
-      saveTracks(newTracks);
+      persistTracks(newTracks);
 
       // Select the first track
       if (newTracks.length > 0) {
@@ -738,7 +1166,28 @@ function App() {
 
   return (
     <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
-      <div className="min-h-screen bg-background text-foreground">
+      <div
+        className="min-h-screen bg-background text-foreground"
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <Toaster />
+        {dragActive && <DropZoneOverlay />}
+        <ImportProgress items={importProgress} onCancel={cancelImport} />
+        {viewingSharedPlan && (
+          <SharedPlanBanner
+            trackCount={tracks.length}
+            onSave={saveSharedPlan}
+            onClose={closeSharedPlan}
+          />
+        )}
+        <ImportUrlDialog
+          open={showUrlDialog}
+          onOpenChange={setShowUrlDialog}
+          onImport={handleUrlImport}
+        />
         <AlertDialog open={showDemoDialog} onOpenChange={setShowDemoDialog}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -762,12 +1211,12 @@ function App() {
             <input
               type="file"
               multiple
-              accept=".gpx"
+              accept={TRACK_FILE_ACCEPT}
               onChange={handleFileUpload}
               className="absolute inset-0 opacity-0 cursor-pointer"
             />
             <Upload className="w-4 h-4 mr-2" />
-            Upload GPX
+            Upload Tracks
           </Button>
           <Button
             variant="secondary"
@@ -777,12 +1226,29 @@ function App() {
             <input
               type="file"
               multiple
-              accept=".gpx"
+              accept={TRACK_FILE_ACCEPT}
               onChange={handleFileUpload}
               className="absolute inset-0 opacity-0 cursor-pointer"
             />
             <Upload className="w-4 h-4" />
           </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setShowUrlDialog(true)}
+            disabled={loading}
+            className="md:flex hidden"
+          >
+            <Link className="w-4 h-4 mr-2" />
+            From URL
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => setShowUrlDialog(true)}
+            disabled={loading}
+            className="md:hidden flex"
+          >
+            <Link className="w-4 h-4" />
+          </Button>
           <Button
             variant="secondary"
             onClick={handleRefresh}
@@ -859,6 +1325,24 @@ function App() {
           >
             <ZoomIn className="w-4 h-4" />
           </Button>
+
+          <Button
+            variant="secondary"
+            onClick={handleShare}
+            disabled={loading || !tracks.length}
+            className="md:flex hidden"
+          >
+            <Share2 className="w-4 h-4 mr-2" />
+            Share
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={handleShare}
+            disabled={loading || !tracks.length}
+            className="md:hidden flex"
+          >
+            <Share2 className="w-4 h-4" />
+          </Button>
           
           <div className="ml-auto flex items-center gap-2 bg-background/80 backdrop-blur-sm rounded-lg px-3 py-2">
             <Cloud className="w-4 h-4" />
@@ -903,6 +1387,14 @@ function App() {
                   <BarChart2 className="w-4 h-4" />
                   <span className="md:inline hidden">Profile</span>
                 </TabsTrigger>
+                <TabsTrigger value="climbs" className="flex items-center gap-1">
+                  <Mountain className="w-4 h-4" />
+                  <span className="md:inline hidden">Climbs</span>
+                </TabsTrigger>
+                <TabsTrigger value="activity" className="flex items-center gap-1">
+                  <Activity className="w-4 h-4" />
+                  <span className="md:inline hidden">Activity</span>
+                </TabsTrigger>
                 <TabsTrigger value="tracks" className="flex items-center gap-1">
                   <List className="w-4 h-4" />
                   <span className="md:inline hidden">Tracks</span>
@@ -941,6 +1433,14 @@ function App() {
                 />
               </TabsContent>
               
+              <TabsContent value="climbs" className="m-0 h-full">
+                <ClimbList track={selectedTrack} />
+              </TabsContent>
+
+              <TabsContent value="activity" className="m-0 h-full">
+                <ActivitySummary track={selectedTrack} />
+              </TabsContent>
+
               <TabsContent value="tracks" className="m-0 h-full">
                 <TrackList
                   tracks={tracks}
@@ -953,6 +1453,7 @@ function App() {
                     }
                   }}
                   onDeleteTrack={handleDeleteTrack}
+                  forecastDate={settings.forecastDate}
                 />
               </TabsContent>
 
@@ -961,7 +1462,7 @@ function App() {
               </TabsContent>
 
               <TabsContent value="settings" className="m-0 h-full">
-                <SettingsSection settings={settings} onChange={setSettings} />
+                <SettingsSection settings={settings} onChange={setSettings} onRestore={handleRestore} />
               </TabsContent>
 
               <TabsContent value="about" className="m-0 h-full">
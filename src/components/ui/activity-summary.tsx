@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { ProcessedTrack } from "@/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./table";
+import { getActivityStats, getStops, MAX_LISTED_STOPS, MIN_STOP_DURATION } from "@/lib/activity";
+import { formatDuration } from "@/lib/utils";
+
+interface ActivitySummaryProps {
+  track: ProcessedTrack | null;
+}
+
+export function ActivitySummary({ track }: ActivitySummaryProps) {
+  const activityStats = useMemo(() => (track ? getActivityStats(track.points) : null), [track]);
+  const stops = useMemo(() => (track ? getStops(track.points).slice(0, MAX_LISTED_STOPS) : []), [track]);
+
+  if (!track) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">Select a track to review its recording.</div>
+    );
+  }
+
+  if (!activityStats) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        This track has no timestamps. Import a recorded GPX, TCX or FIT file to review the ride.
+      </div>
+    );
+  }
+
+  const figures = [
+    { label: "Elapsed", value: formatDuration(activityStats.elapsedTime) },
+    { label: "Moving", value: formatDuration(activityStats.movingTime) },
+    { label: "Paused", value: formatDuration(activityStats.elapsedTime - activityStats.movingTime) },
+    { label: "Avg speed", value: `${activityStats.averageSpeed.toFixed(1)} km/h` },
+    { label: "Max speed", value: `${activityStats.maxSpeed.toFixed(1)} km/h` },
+    ...(activityStats.averageHr !== undefined
+      ? [{ label: "Heart rate", value: `${activityStats.averageHr.toFixed(0)} / ${activityStats.maxHr!.toFixed(0)} bpm` }]
+      : [])
+  ];
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="max-w-[700px] mx-auto grid grid-cols-3 md:grid-cols-6 gap-2">
+        {figures.map(figure => (
+          <div key={figure.label} className="rounded-md border px-2 py-1">
+            <div className="text-xs text-muted-foreground">{figure.label}</div>
+            <div className="text-sm font-medium">{figure.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {stops.length > 0 ? (
+        <div className="max-w-[700px] mx-auto overflow-auto max-h-[170px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stop</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>At</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Location</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stops.map((stop, idx) => (
+                <TableRow key={stop.index}>
+                  <TableCell>{idx + 1}</TableCell>
+                  <TableCell>{formatDuration(stop.duration)}</TableCell>
+                  <TableCell>km {stop.distance.toFixed(1)}</TableCell>
+                  <TableCell>
+                    {new Date(stop.start).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </TableCell>
+                  <TableCell>{stop.lat.toFixed(5)}, {stop.lon.toFixed(5)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <div className="text-center text-sm text-muted-foreground">No stops longer than {formatDuration(MIN_STOP_DURATION)}.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { ProcessedTrack } from "@/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./table";
+import { detectClimbs, getClimbStyle } from "@/lib/climbs";
+
+interface ClimbListProps {
+  track: ProcessedTrack | null;
+}
+
+export function ClimbList({ track }: ClimbListProps) {
+  const climbs = useMemo(() => (track ? detectClimbs(track.points) : []), [track]);
+
+  if (!track) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">Select a track to see its climbs.</div>
+    );
+  }
+
+  if (!climbs.length) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">No categorised climbs on this track.</div>
+    );
+  }
+
+  return (
+    <div className="p-4">
+      <div className="max-w-[700px] mx-auto overflow-auto max-h-[260px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Start</TableHead>
+              <TableHead>Length</TableHead>
+              <TableHead>Gain</TableHead>
+              <TableHead>Avg</TableHead>
+              <TableHead>Max</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {climbs.map((climb, idx) => {
+              const style = getClimbStyle(climb.category);
+              return (
+                <TableRow key={climb.startIndex}>
+                  <TableCell>{idx + 1}</TableCell>
+                  <TableCell>
+                    <span
+                      className="rounded px-1.5 py-0.5 text-xs font-semibold text-white"
+                      style={{ backgroundColor: style.color }}
+                    >
+                      {style.label}
+                    </span>
+                  </TableCell>
+                  <TableCell>km {climb.startDistance.toFixed(1)}</TableCell>
+                  <TableCell>{climb.length.toFixed(1)} km</TableCell>
+                  <TableCell>{climb.gain.toFixed(0)} m</TableCell>
+                  <TableCell>{climb.averageGrade.toFixed(1)}%</TableCell>
+                  <TableCell>{climb.maxGrade.toFixed(1)}%</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { CheckCircle, FileUp, Loader2, XCircle, Clock, Ban, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ImportProgressItem, ImportStage, ImportStatus } from "@/types";
+
+export function DropZoneOverlay() {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/70 backdrop-blur-sm pointer-events-none">
+      <div className="flex flex-col items-center gap-3 rounded-xl border-2 border-dashed border-primary px-16 py-12 text-center">
+        <FileUp className="h-12 w-12 text-primary" />
+        <p className="text-lg font-semibold">Drop track files to import</p>
+        <p className="text-sm text-muted-foreground">GPX, KML, KMZ, TCX, FIT or GeoJSON, or a ZIP of them</p>
+      </div>
+    </div>
+  );
+}
+
+const STATUS_ICONS: Record<ImportStatus, JSX.Element> = {
+  pending: <Clock className="h-4 w-4 text-muted-foreground" />,
+  processing: <Loader2 className="h-4 w-4 animate-spin" />,
+  done: <CheckCircle className="h-4 w-4 text-green-500" />,
+  error: <XCircle className="h-4 w-4 text-destructive" />,
+  cancelled: <Ban className="h-4 w-4 text-muted-foreground" />
+};
+
+const STAGE_LABELS: Record<ImportStage, string> = {
+  reading: 'Reading',
+  parsing: 'Parsing',
+  validating: 'Validating',
+  sampling: 'Sampling',
+  statistics: 'Statistics'
+};
+
+interface ImportProgressProps {
+  items: ImportProgressItem[];
+  onCancel: (index: number) => void;
+}
+
+export function ImportProgress({ items, onCancel }: ImportProgressProps) {
+  if (items.length === 0) return null;
+
+  const finished = items.filter(item => item.status !== 'pending' && item.status !== 'processing').length;
+
+  return (
+    <Card className="fixed top-16 left-4 z-20 w-72 p-3 text-sm">
+      <div className="mb-2 font-medium">
+        Importing {finished}/{items.length} file{items.length !== 1 ? 's' : ''}
+      </div>
+      <div className="max-h-48 space-y-1 overflow-y-auto">
+        {items.map((item, idx) => (
+          <div key={idx} className="space-y-1">
+            <div className="flex items-center gap-2">
+              {STATUS_ICONS[item.status]}
+              <span className="flex-1 truncate">{item.name}</span>
+              {(item.status === 'pending' || item.status === 'processing') && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => onCancel(idx)}
+                  title="Cancel import"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            {item.status === 'processing' && item.stage && (
+              <div className="flex items-center gap-2 pl-6 text-xs text-muted-foreground">
+                <Progress value={(item.progress ?? 0) * 100} className="h-1 flex-1" />
+                <span className="w-16 text-right">{STAGE_LABELS[item.stage]}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "@/components/ui/dialog";
+
+interface ImportUrlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (url: string) => void;
+}
+
+export function ImportUrlDialog({ open, onOpenChange, onImport }: ImportUrlDialogProps) {
+  const [url, setUrl] = useState("");
+
+  const isValid = /^https?:\/\/\S+$/i.test(url.trim());
+
+  const handleImport = () => {
+    if (!isValid) return;
+    onImport(url.trim());
+    setUrl("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import from URL</DialogTitle>
+          <DialogDescription>
+            Link to a GPX, KML, KMZ, TCX, FIT or GeoJSON file, or a ZIP archive of them. The server must allow cross-origin requests.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="import-url">URL</Label>
+          <Input
+            id="import-url"
+            placeholder="https://example.com/route.gpx"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleImport()}
+          />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button onClick={handleImport} disabled={!isValid}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
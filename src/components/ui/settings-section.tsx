@@ -1,30 +1,282 @@
+import { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { DatePicker } from "@/components/ui/date-picker";
-import { UserSettings } from "@/types";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useTheme } from "@/components/theme-provider";
+import { toast } from "@/hooks/use-toast";
+import { PaceModel, PaceSettings, ProcessedTrack, RestoreMode, UserSettings, WorkspaceBackup } from "@/types";
+import { exportBackup, readBackup, restoreBackup } from "@/lib/backup";
+import { PACE_MODELS } from "@/lib/pace";
+
+// Hysteresis choices for the ascent and descent, in meters
+const ELEVATION_THRESHOLDS = [0, 2, 5, 10, 20];
 
 interface SettingsSectionProps {
   settings: UserSettings;
   onChange: (s: UserSettings) => void;
+  onRestore: (tracks: ProcessedTrack[], settings: UserSettings) => void;
 }
 
-export function SettingsSection({ settings, onChange }: SettingsSectionProps) {
+export function SettingsSection({ settings, onChange, onRestore }: SettingsSectionProps) {
+  const { theme, setTheme } = useTheme();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [includeCache, setIncludeCache] = useState(false);
+  const [compress, setCompress] = useState(false);
+  const [pendingBackup, setPendingBackup] = useState<WorkspaceBackup | null>(null);
+
   const from = new Date();
   from.setDate(from.getDate() - 1);
   const to = new Date();
   to.setDate(to.getDate() + 7);
 
+  const handleBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setPendingBackup(await readBackup(file));
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      toast({
+        variant: "destructive",
+        title: "Could not read the backup",
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  const confirmRestore = (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    const restored = restoreBackup(pendingBackup, mode);
+    if (mode === "replace" && pendingBackup.theme) {
+      setTheme(pendingBackup.theme);
+    }
+    onRestore(restored.tracks, restored.settings);
+    toast({
+      title: mode === "replace" ? "Workspace replaced" : "Backup merged",
+      description: `${restored.tracks.length} track${restored.tracks.length !== 1 ? "s" : ""} in your workspace`
+    });
+    setPendingBackup(null);
+  };
+
+  // Keep the last valid value while a number input is cleared or out of range
+  const setPace = (key: keyof Omit<PaceSettings, "model">, value: string, min: number) => {
+    const number = Number(value);
+    if (value === "" || !Number.isFinite(number) || number < min) return;
+    onChange({ ...settings, pace: { ...settings.pace, [key]: number } });
+  };
+
   return (
-    <Card className="p-4 space-y-4">
-      <div className="flex flex-col gap-2">
-        <Label className="px-1">Forecast Date</Label>
-        <DatePicker
-          value={settings.forecastDate}
-          onChange={(d) => onChange({ ...settings, forecastDate: d })}
-          minDate={from}
-          maxDate={to}
-        />
-      </div>
-    </Card>
+    <div className="space-y-4">
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-col gap-2">
+          <Label className="px-1">Forecast Date</Label>
+          <DatePicker
+            value={settings.forecastDate}
+            onChange={(d) => onChange({ ...settings, forecastDate: d })}
+            minDate={from}
+            maxDate={to}
+          />
+        </div>
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-col gap-2">
+          <div className="space-y-1">
+            <Label className="px-1">Elevation Noise Filter</Label>
+            <p className="px-1 text-xs text-muted-foreground">
+              Ascent and descent ignore elevation changes smaller than this. Raise it for tracks with noisy GPS elevation.
+            </p>
+          </div>
+          <Select
+            value={String(settings.elevationThreshold)}
+            onValueChange={(v) => onChange({ ...settings, elevationThreshold: Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ELEVATION_THRESHOLDS.map(threshold => (
+                <SelectItem key={threshold} value={String(threshold)}>
+                  {threshold === 0 ? "Off (count every change)" : `${threshold} m`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-col gap-2">
+          <div className="space-y-1">
+            <Label className="px-1">Pace</Label>
+            <p className="px-1 text-xs text-muted-foreground">
+              {PACE_MODELS[settings.pace.model].description}. Used for the estimated time, the ETAs and timed exports.
+            </p>
+          </div>
+          <Select
+            value={settings.pace.model}
+            onValueChange={(v) => onChange({ ...settings, pace: { ...PACE_MODELS[v as PaceModel].defaults } })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PACE_MODELS) as PaceModel[]).map(model => (
+                <SelectItem key={model} value={model}>
+                  {PACE_MODELS[model].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="pace-flat-speed" className="px-1 text-xs">Flat speed (km/h)</Label>
+              <Input
+                id="pace-flat-speed"
+                type="number"
+                min={1}
+                step={0.5}
+                defaultValue={settings.pace.flatSpeed}
+                key={`speed-${settings.pace.model}-${settings.pace.flatSpeed}`}
+                onBlur={(e) => setPace("flatSpeed", e.target.value, 1)}
+              />
+            </div>
+            {settings.pace.model !== "tobler" && (
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="pace-climb-rate" className="px-1 text-xs">Climbing (m/h)</Label>
+                <Input
+                  id="pace-climb-rate"
+                  type="number"
+                  min={50}
+                  step={50}
+                  defaultValue={settings.pace.climbRate}
+                  key={`climb-${settings.pace.model}-${settings.pace.climbRate}`}
+                  onBlur={(e) => setPace("climbRate", e.target.value, 50)}
+                />
+              </div>
+            )}
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="pace-breaks" className="px-1 text-xs">Breaks (min/h)</Label>
+              <Input
+                id="pace-breaks"
+                type="number"
+                min={0}
+                max={60}
+                step={1}
+                defaultValue={settings.pace.breakMinutes}
+                key={`breaks-${settings.pace.model}-${settings.pace.breakMinutes}`}
+                onBlur={(e) => setPace("breakMinutes", e.target.value, 0)}
+              />
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <div className="space-y-1">
+          <Label className="px-1">Workspace Backup</Label>
+          <p className="px-1 text-xs text-muted-foreground">
+            Save your tracks and settings to a file, or restore them on another browser.
+          </p>
+        </div>
+        <div className="flex flex-col gap-2 px-1">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="backup-cache"
+              checked={includeCache}
+              onCheckedChange={(checked) => setIncludeCache(checked === true)}
+            />
+            <Label htmlFor="backup-cache" className="font-normal">Include the weather cache</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="backup-compress"
+              checked={compress}
+              onCheckedChange={(checked) => setCompress(checked === true)}
+            />
+            <Label htmlFor="backup-compress" className="font-normal">Compress as ZIP</Label>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportBackup({ theme, includeCache, compress })}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Backup
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Restore
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,.zip"
+            className="hidden"
+            onChange={handleBackupFile}
+          />
+        </div>
+      </Card>
+
+      <AlertDialog open={pendingBackup !== null} onOpenChange={(open) => !open && setPendingBackup(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingBackup && (
+                <>
+                  Backup from {new Date(pendingBackup.createdAt).toLocaleString()} with{" "}
+                  {pendingBackup.tracks.length} track{pendingBackup.tracks.length !== 1 ? "s" : ""}
+                  {pendingBackup.weatherCache ? " and cached weather" : ""}.
+                  {" "}Merge adds them to your current tracks. Replace discards your current
+                  tracks and settings.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              onClick={() => confirmRestore("merge")}
+            >
+              Merge
+            </AlertDialogAction>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => confirmRestore("replace")}
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
   );
 }
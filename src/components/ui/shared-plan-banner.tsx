@@ -0,0 +1,27 @@
+import { Share2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface SharedPlanBannerProps {
+  trackCount: number;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+// Shown while viewing the tracks of a share link, which are not saved unless asked
+export function SharedPlanBanner({ trackCount, onSave, onClose }: SharedPlanBannerProps) {
+  return (
+    <Card className="fixed top-16 left-1/2 z-20 flex -translate-x-1/2 items-center gap-3 p-3 text-sm">
+      <Share2 className="h-4 w-4 shrink-0" />
+      <span>
+        Viewing a shared plan with {trackCount} track{trackCount !== 1 ? "s" : ""}
+      </span>
+      <Button size="sm" onClick={onSave} disabled={trackCount === 0}>
+        Save to my tracks
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onClose}>
+        Close
+      </Button>
+    </Card>
+  );
+}
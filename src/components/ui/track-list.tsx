@@ -4,11 +4,18 @@ import { formatDistanceToNow } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Trash2, MapIcon, Clock, Download, CheckCircle } from "lucide-react";
+import { MapPin, Trash2, MapIcon, Clock, Download, CheckCircle, Timer } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { calculateDistance, exportWeatherPdf } from "@/lib/utils";
+import { calculateDistance, formatDuration, getTrackStats, TRACK_COLORS } from "@/lib/utils";
+import { exportWeatherPdf } from "@/lib/pdf";
+import { exportGeoJson } from "@/lib/geojson";
+import { exportGpx } from "@/lib/gpx";
+import { exportKml } from "@/lib/kml";
+import { exportWeatherCsv, exportWeatherXlsx, UnitSystem } from "@/lib/spreadsheet";
+import { exportProfileImages } from "@/lib/profile-image";
+import { exportIcs } from "@/lib/ical";
+import { exportCourses } from "@/lib/course";
 import { Checkbox } from "@/components/ui/checkbox";
-// Download feature will be implemented later
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,24 +35,47 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type ExportFormat = "pdf" | "gpx" | "kml" | "geojson" | "csv" | "xlsx" | "profile-png" | "profile-svg" | "ics" | "tcx" | "fit";
 
 interface TrackListProps {
   tracks: ProcessedTrack[];
   selectedTrackId?: string;
   onSelectTrack: (trackId: string) => void;
   onDeleteTrack: (trackId: string | string[]) => void;
+  /** Day of the rides in the calendar export, when a track has no forecast */
+  forecastDate: string;
 }
 
 export function TrackList({
   tracks,
   selectedTrackId,
   onSelectTrack, 
-  onDeleteTrack
+  onDeleteTrack,
+  forecastDate
 }: TrackListProps) {
   const [selectedTracks, setSelectedTracks] = useState<Set<string>>(new Set());
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [exportTitle, setExportTitle] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("pdf");
+  const [includeForecast, setIncludeForecast] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [startTime, setStartTime] = useState("08:00");
+  const [profileMarkers, setProfileMarkers] = useState({ weather: true, waypoints: true });
+  const [units, setUnits] = useState<UnitSystem>("metric");
+  const [decimalSeparator, setDecimalSeparator] = useState<"." | ",">(
+    // Default to the separator of the browser locale
+    (1.5).toLocaleString().includes(",") ? "," : "."
+  );
 
   // Update default title when dialog opens
   useEffect(() => {
@@ -53,7 +83,7 @@ export function TrackList({
       const firstId = Array.from(selectedTracks)[0];
       const track = tracks.find(t => t.id === firstId);
       if (track) {
-        const name = track.name || "Track";
+        const name = selectedTracks.size > 1 ? `${selectedTracks.size} tracks` : track.name || "Track";
         setExportTitle(
           `TrailCast - ${new Date().toLocaleDateString()} - ${name}`
         );
@@ -94,13 +124,40 @@ export function TrackList({
     }
   };
 
-  const confirmExport = () => {
-    const firstId = Array.from(selectedTracks)[0];
-    const track = tracks.find(t => t.id === firstId);
-    if (track) {
-      exportWeatherPdf(track, exportTitle);
+  const confirmExport = async () => {
+    const tracksToExport = tracks.filter(t => selectedTracks.has(t.id));
+    // Use the same colours as on the map
+    const colors = tracksToExport.map(track => TRACK_COLORS[tracks.indexOf(track) % TRACK_COLORS.length]);
+    setExporting(true);
+    try {
+      if (exportFormat === "geojson") {
+        exportGeoJson(tracksToExport, exportTitle);
+      } else if (exportFormat === "gpx") {
+        exportGpx(tracksToExport, exportTitle, { includeForecast });
+      } else if (exportFormat === "kml") {
+        exportKml(tracksToExport, exportTitle, colors);
+      } else if (exportFormat === "csv") {
+        exportWeatherCsv(tracksToExport, exportTitle, { units, decimalSeparator });
+      } else if (exportFormat === "xlsx") {
+        exportWeatherXlsx(tracksToExport, exportTitle, { units });
+      } else if (exportFormat === "ics") {
+        exportIcs(tracksToExport, exportTitle, { forecastDate, startTime });
+      } else if (exportFormat === "tcx" || exportFormat === "fit") {
+        exportCourses(tracksToExport, exportTitle, exportFormat, { forecastDate, startTime });
+      } else if (exportFormat === "profile-png" || exportFormat === "profile-svg") {
+        await exportProfileImages(tracksToExport, exportTitle, exportFormat === "profile-png" ? "png" : "svg", {
+          showWeather: profileMarkers.weather,
+          showWaypoints: profileMarkers.waypoints
+        });
+      } else if (tracksToExport.length > 0) {
+        await exportWeatherPdf(tracksToExport, exportTitle, colors);
+      }
+      setShowExportDialog(false);
+    } catch (error) {
+      console.error('Error exporting tracks:', error);
+    } finally {
+      setExporting(false);
     }
-    setShowExportDialog(false);
   };
 
   if (tracks.length === 0) {
@@ -108,7 +165,7 @@ export function TrackList({
       <Card className="h-[210px] flex flex-col items-center justify-center text-sm text-muted-foreground">
         <MapIcon className="h-12 w-12 mb-2 text-muted-foreground/50" />
         <p>No tracks loaded yet</p>
-        <p className="text-xs mt-2">Upload GPX files to see your tracks here</p>
+        <p className="text-xs mt-2">Upload GPX, KML, TCX, FIT, GeoJSON or ZIP files to see your tracks here</p>
       </Card>
     );
   }
@@ -190,17 +247,14 @@ export function TrackList({
                 for (let i = 1; i < track.points.length; i++) {
                   const prevPoint = track.points[i - 1];
                   const currPoint = track.points[i];
+                  if ((prevPoint.segment ?? 0) !== (currPoint.segment ?? 0)) continue;
                   totalDist += calculateDistance(prevPoint.lat, prevPoint.lon, currPoint.lat, currPoint.lon);
                 }
                 distance = totalDist.toFixed(1);
               }
             }
             
-            // Calculate min and max elevation
-            const elevations = track.points.map(p => p.ele || 0).filter(e => e > 0);
-            const minEle = elevations.length ? Math.min(...elevations) : 0;
-            const maxEle = elevations.length ? Math.max(...elevations) : 0;
-            const elevationGain = maxEle - minEle;
+            const { ascent } = track.stats ?? getTrackStats(track.points);
             
             return (
               <div 
@@ -230,17 +284,28 @@ export function TrackList({
                     <h3 className="font-medium">
                       {track.name || `Track ${tracks.findIndex(t => t.id === track.id) + 1}`}
                     </h3>
+                    {track.group && (
+                      <Badge variant="outline" className="mt-1 text-[10px] font-normal">
+                        {track.group}
+                      </Badge>
+                    )}
                     <div className="flex text-xs text-muted-foreground mt-1 space-x-3">
                       <span className="flex items-center">
                         <MapPin className="h-3 w-3 mr-1" /> {distance} km
                       </span>
-                      {elevations.length > 0 && (
+                      {ascent !== undefined && (
                         <span className="flex items-center">
                           <svg className="h-3 w-3 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                             <path d="M8 18L12 14L16 18" />
                             <path d="M8 10L12 6L16 10" />
                           </svg>
-                          {elevationGain.toFixed(0)} m
+                          {ascent.toFixed(0)} m
+                        </span>
+                      )}
+                      {track.estimate && (
+                        <span className="flex items-center" title="Estimated time, breaks included">
+                          <Timer className="h-3 w-3 mr-1" />
+                          {formatDuration(track.estimate.duration)}
                         </span>
                       )}
                       <span className="flex items-center">
@@ -276,19 +341,123 @@ export function TrackList({
       <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
         <DialogContent>
           <DialogHeaderBase>
-            <DialogTitleBase>Export Cue Sheet</DialogTitleBase>
+            <DialogTitleBase>Export Tracks</DialogTitleBase>
           </DialogHeaderBase>
           <div className="space-y-4">
-            <Input
-              value={exportTitle}
-              onChange={(e) => setExportTitle(e.target.value)}
-            />
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="export-title">Title</Label>
+              <Input
+                id="export-title"
+                value={exportTitle}
+                onChange={(e) => setExportTitle(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(v) => setExportFormat(v as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF report (map, profile and forecast)</SelectItem>
+                  <SelectItem value="gpx">GPX 1.1 (for GPS devices)</SelectItem>
+                  <SelectItem value="tcx">TCX course (Garmin, forecast as course points)</SelectItem>
+                  <SelectItem value="fit">FIT course (Garmin, forecast as course points)</SelectItem>
+                  <SelectItem value="kml">KML (Google Earth, with forecast balloons)</SelectItem>
+                  <SelectItem value="geojson">GeoJSON (track and weather points)</SelectItem>
+                  <SelectItem value="csv">CSV (weather points)</SelectItem>
+                  <SelectItem value="xlsx">Excel workbook (weather points, one sheet per track)</SelectItem>
+                  <SelectItem value="ics">iCalendar (one event per ride, with the forecast)</SelectItem>
+                  <SelectItem value="profile-png">Elevation profile images (PNG)</SelectItem>
+                  <SelectItem value="profile-svg">Elevation profile images (SVG)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {(exportFormat === "csv" || exportFormat === "xlsx") && (
+              <div className="flex gap-4">
+                <div className="flex flex-1 flex-col gap-2">
+                  <Label>Units</Label>
+                  <Select value={units} onValueChange={(v) => setUnits(v as UnitSystem)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="metric">Metric (km, m, °C, mm)</SelectItem>
+                      <SelectItem value="imperial">Imperial (mi, ft, °F, in)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {exportFormat === "csv" && (
+                  <div className="flex flex-1 flex-col gap-2">
+                    <Label>Decimal separator</Label>
+                    <Select value={decimalSeparator} onValueChange={(v) => setDecimalSeparator(v as "." | ",")}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value=".">Point (1.5)</SelectItem>
+                        <SelectItem value=",">Comma (1,5)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+            {exportFormat === "gpx" && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="export-forecast"
+                  checked={includeForecast}
+                  onCheckedChange={(checked) => setIncludeForecast(checked === true)}
+                />
+                <Label htmlFor="export-forecast">Add the forecast at sampled points as waypoints</Label>
+              </div>
+            )}
+            {(exportFormat === "ics" || exportFormat === "tcx" || exportFormat === "fit") && (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="export-start-time">Start time</Label>
+                <Input
+                  id="export-start-time"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Planned tracks are timed with the pace model from the settings.
+                </p>
+              </div>
+            )}
+            {(exportFormat === "profile-png" || exportFormat === "profile-svg") && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="export-profile-weather"
+                    checked={profileMarkers.weather}
+                    onCheckedChange={(checked) => setProfileMarkers({ ...profileMarkers, weather: checked === true })}
+                  />
+                  <Label htmlFor="export-profile-weather">Mark the weather sample points</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="export-profile-waypoints"
+                    checked={profileMarkers.waypoints}
+                    onCheckedChange={(checked) => setProfileMarkers({ ...profileMarkers, waypoints: checked === true })}
+                  />
+                  <Label htmlFor="export-profile-waypoints">Mark the waypoints</Label>
+                </div>
+                {selectedTracks.size > 1 && (
+                  <p className="text-xs text-muted-foreground">One image per track, downloaded as a ZIP file.</p>
+                )}
+              </div>
+            )}
           </div>
           <DialogFooterBase>
             <DialogClose asChild>
               <Button variant="secondary">Cancel</Button>
             </DialogClose>
-            <Button onClick={confirmExport}>Export</Button>
+            <Button onClick={confirmExport} disabled={exporting}>
+              {exporting ? "Exporting..." : "Export"}
+            </Button>
           </DialogFooterBase>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { cloneElement, ReactElement } from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { GpxPoint, ProcessedTrack } from '@/types';
+import { addDistances } from '@/lib/utils';
+import { TrackProfile } from './track-profile';
+
+// jsdom has no layout, so give the chart a fixed size
+vi.mock('recharts', async importOriginal => ({
+  ...(await importOriginal<typeof import('recharts')>()),
+  ResponsiveContainer: ({ children }: { children: ReactElement }) =>
+    cloneElement(children, { width: 800, height: 300 })
+}));
+
+// A straight climb north with `count` points 10 m apart
+function createTrack(count: number): ProcessedTrack {
+  const points: GpxPoint[] = Array.from({ length: count }, (_, i) => ({
+    lat: 28 + (i * 10) / 111195,
+    lon: -15.4,
+    ele: 100 + i * 0.5
+  }));
+  return { id: 'long', name: 'Long', points: addDistances(points), createdAt: 0 } as ProcessedTrack;
+}
+
+describe('TrackProfile', () => {
+  it('draws waypoints that sit on thinned-out points of a long track', () => {
+    const track = createTrack(5000);
+    // Every third point is charted on a 5000 point track, this one is not
+    const point = track.points[1001];
+    track.waypoints = [{ lat: point.lat, lon: point.lon, distance: point.distance, name: 'Fuente', category: 'water' }];
+
+    render(<TrackProfile track={track} />);
+
+    expect(screen.getByText('💧')).toBeTruthy();
+  });
+});
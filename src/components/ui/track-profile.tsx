@@ -1,7 +1,48 @@
-import { useEffect, useState } from "react";
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { useEffect, useId, useMemo, useState } from "react";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceLine, ReferenceArea, Tooltip } from 'recharts';
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
 import { GpxPoint, ProcessedTrack } from "@/types";
+import { WAYPOINT_ICONS, formatDuration, getTrackStats } from "@/lib/utils";
+import { getActivityStats, getPointSpeeds } from "@/lib/activity";
+import { exportProfileImages, ProfileImageFormat } from "@/lib/profile-image";
+import { GRADIENT_BANDS, getGradientBand, getGradientDistances, getPointGrades } from "@/lib/gradient";
+import { detectClimbs, getClimbStyle } from "@/lib/climbs";
+import { getPointEtas } from "@/lib/pace";
+
+type Overlay = "speed" | "hr" | "atemp";
+
+interface ProfileEntry {
+  distance: number;
+  elevation: number | null;
+  grade?: number | null;
+  eta?: number; // seconds from the start, see `getPointEtas`
+  speed?: number | null;
+  hr?: number;
+  atemp?: number;
+  original: GpxPoint;
+}
+
+// Charting every point of a multi-day recording makes hovering sluggish
+const MAX_PROFILE_POINTS = 2000;
+
+// Recorded values that can be drawn over the elevation profile
+const OVERLAYS: Record<Overlay, { label: string; unit: string; color: string }> = {
+  speed: { label: "Speed", unit: "km/h", color: "#10b981" },
+  hr: { label: "Heart rate", unit: "bpm", color: "#ef4444" },
+  atemp: { label: "Temp", unit: "°C", color: "#f59e0b" }
+};
 
 interface TrackProfileProps {
   track: ProcessedTrack | null;
@@ -10,8 +51,23 @@ interface TrackProfileProps {
 
 export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
   const [activePointIndex, setActivePointIndex] = useState<number | null>(null);
-  const [profileData, setProfileData] = useState<Array<{distance: number; elevation: number; original: GpxPoint}>>([]);
+  const [profileData, setProfileData] = useState<ProfileEntry[]>([]);
   const [currentElevation, setCurrentElevation] = useState<number | null>(null);
+  const [overlay, setOverlay] = useState<Overlay | "">("");
+  const [showWeather, setShowWeather] = useState(true);
+  const [showWaypoints, setShowWaypoints] = useState(true);
+
+  // Colons of React ids are not valid in url() references
+  const gradientId = `profile-gradient-${useId().replace(/:/g, "")}`;
+
+  const activityStats = useMemo(() => (track ? getActivityStats(track.points) : null), [track]);
+  const climbs = useMemo(() => (track ? detectClimbs(track.points) : []), [track]);
+
+  // Recorded rides open with their speed drawn alongside the elevation
+  const recorded = activityStats !== null;
+  useEffect(() => {
+    setOverlay(recorded ? "speed" : "");
+  }, [track?.id, recorded]);
   
   useEffect(() => {
     if (!track) {
@@ -20,22 +76,64 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
       return;
     }
     
-    // Prepare data for chart with distance and elevation
-    const data = track.points.map(point => ({
-      distance: point.distance ?? 0,
-      elevation: point.ele ?? 0,
-      original: point
-    }));
+    // Prepare data for chart with distance, elevation and recorded values,
+    // with an empty entry between segments so the area is not drawn across the gap.
+    // Long tracks are thinned out, keeping the ends of every segment.
+    const speeds = getPointSpeeds(track.points);
+    const grades = getPointGrades(track.points);
+    const etas = track.estimate ? getPointEtas(track.points, track.estimate.settings) : [];
+    const stride = Math.ceil(track.points.length / MAX_PROFILE_POINTS);
+    const data = track.points.flatMap((point, index): ProfileEntry[] => {
+      const nextPoint = track.points[index + 1];
+      const segmentEnd = !nextPoint || (nextPoint.segment ?? 0) !== (point.segment ?? 0);
+      const segmentStart = index === 0 || (track.points[index - 1].segment ?? 0) !== (point.segment ?? 0);
+      if (index % stride !== 0 && !segmentStart && !segmentEnd) return [];
+
+      const entry = {
+        distance: point.distance ?? 0,
+        elevation: point.ele ?? 0,
+        grade: grades[index],
+        eta: etas[index],
+        speed: speeds[index],
+        hr: point.hr,
+        atemp: point.atemp,
+        original: point
+      };
+      const prevPoint = track.points[index - 1];
+      if (prevPoint && (prevPoint.segment ?? 0) !== (point.segment ?? 0)) {
+        return [{ ...entry, elevation: null, grade: null, speed: null, hr: undefined, atemp: undefined }, entry];
+      }
+      return [entry];
+    });
     
     setProfileData(data);
   }, [track]);
 
+  // Horizontal gradient with a hard colour change wherever the grade moves to
+  // another band, so the area is coloured by gradient. The distance axis is
+  // categorical, entries are evenly spaced, so offsets go by index.
+  const gradientStops = useMemo(() => {
+    const lastIndex = Math.max(profileData.length - 1, 1);
+    const stops: Array<{ offset: number; color: string }> = [];
+    let currentBand = -1;
+    profileData.forEach((entry, index) => {
+      if (entry.grade === null || entry.grade === undefined) return;
+      const band = getGradientBand(entry.grade);
+      if (band === currentBand) return;
+      const offset = index / lastIndex;
+      if (currentBand !== -1) stops.push({ offset, color: GRADIENT_BANDS[currentBand].color });
+      stops.push({ offset, color: GRADIENT_BANDS[band].color });
+      currentBand = band;
+    });
+    return stops;
+  }, [profileData]);
+
   const handleMouseMove = (data: any) => {
     if (data.activeTooltipIndex !== undefined) {
       setActivePointIndex(data.activeTooltipIndex);
       
       if (profileData[data.activeTooltipIndex]) {
-        setCurrentElevation(profileData[data.activeTooltipIndex].elevation);
+        setCurrentElevation(profileData[data.activeTooltipIndex].elevation ?? null);
         
         if (onCursorChange) {
           onCursorChange(profileData[data.activeTooltipIndex].original);
@@ -52,6 +150,15 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
     }
   };
 
+  const exportImage = async (format: ProfileImageFormat) => {
+    if (!track) return;
+    try {
+      await exportProfileImages([track], `${track.name || "track"}-profile`, format, { showWeather, showWaypoints });
+    } catch (error) {
+      console.error("Error exporting elevation profile:", error);
+    }
+  };
+
   if (!track || profileData.length === 0) {
     return (
       <Card className="h-[210px] flex items-center justify-center text-sm text-muted-foreground">
@@ -60,32 +167,126 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
     );
   }
 
-  const minElevation = Math.min(...profileData.map(d => d.elevation));
-  const maxElevation = Math.max(...profileData.map(d => d.elevation));
+  const stats = track.stats ?? getTrackStats(track.points);
+  const { minElevation = 0, maxElevation = 0, ascent, descent } = stats;
+  // Tracks saved before the gradient summary existed get it on the fly
+  const gradientDistances = stats.gradientDistances ??
+    (stats.minElevation !== undefined ? getGradientDistances(track.points) : undefined);
   const totalDistance = profileData.length > 0 ? profileData[profileData.length - 1].distance : 0;
 
+  // Only offer overlays the track has data for
+  const availableOverlays = (Object.keys(OVERLAYS) as Overlay[]).filter(key =>
+    key === "speed" ? activityStats !== null : profileData.some(d => d[key] !== undefined)
+  );
+  const activeOverlay = overlay && availableOverlays.includes(overlay) ? overlay : null;
+
+  // The distance axis is categorical, so areas and lines must sit on charted
+  // distances; long tracks are thinned out
+  const chartedDistance = (distance: number) =>
+    profileData.reduce((best, entry) =>
+      Math.abs(entry.distance - distance) < Math.abs(best - distance) ? entry.distance : best,
+    profileData[0].distance);
+
   return (
     <Card className="p-4">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-semibold">Elevation Profile</h2>
-        <div className="text-sm text-muted-foreground">
+        <div className="flex items-center text-sm text-muted-foreground">
           <span className="mr-4">Distance: {totalDistance.toFixed(1)} km</span>
-          <span>Elevation gain: {(maxElevation - minElevation).toFixed(0)} m</span>
+          {ascent !== undefined && descent !== undefined && (
+            <span>Ascent: {ascent.toFixed(0)} m · Descent: {descent.toFixed(0)} m</span>
+          )}
+          {activityStats && (
+            <span className="ml-4">
+              Moving: {formatDuration(activityStats.movingTime)} of {formatDuration(activityStats.elapsedTime)} @ {activityStats.averageSpeed.toFixed(1)} km/h
+            </span>
+          )}
+          {!activityStats && track.estimate && (
+            <span className="ml-4">Est. time: {formatDuration(track.estimate.duration)}</span>
+          )}
           {currentElevation !== null && (
             <span className="ml-4">Current: {currentElevation.toFixed(0)} m</span>
           )}
+          {availableOverlays.length > 0 && (
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={activeOverlay ?? ""}
+              onValueChange={(value) => setOverlay(value as Overlay | "")}
+              className="ml-4"
+            >
+              {availableOverlays.map(key => (
+                <ToggleGroupItem key={key} value={key} className="h-7 px-2 text-xs">
+                  {OVERLAYS[key].label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="ml-2 h-7 w-7" title="Export profile image">
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Markers</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem
+                checked={showWeather}
+                onCheckedChange={setShowWeather}
+                onSelect={(event) => event.preventDefault()}
+              >
+                Weather points
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={showWaypoints}
+                onCheckedChange={setShowWaypoints}
+                onSelect={(event) => event.preventDefault()}
+              >
+                Waypoints
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => exportImage("png")}>Download PNG</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportImage("svg")}>Download SVG</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
       
       <div className="h-[170px]">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart
+          <ComposedChart
             data={profileData}
             onMouseMove={handleMouseMove}
             onMouseLeave={handleMouseLeave}
             margin={{ top: 5, right: 5, bottom: 5, left: 5 }}
           >
+            {gradientStops.length > 0 && (
+              <defs>
+                <linearGradient id={gradientId} x1="0" y1="0" x2="1" y2="0">
+                  {gradientStops.map((stop, idx) => (
+                    <stop key={idx} offset={stop.offset} stopColor={stop.color} />
+                  ))}
+                </linearGradient>
+              </defs>
+            )}
             <CartesianGrid strokeDasharray="3 3" />
+            <Tooltip
+              cursor={false}
+              isAnimationActive={false}
+              content={({ active, payload }) => {
+                const entry = payload?.[0]?.payload as ProfileEntry | undefined;
+                if (!active || !entry || entry.elevation === null) return null;
+                return (
+                  <div className="rounded-md border bg-background px-2 py-1 text-xs shadow-sm">
+                    <div>{entry.distance.toFixed(1)} km · {entry.elevation.toFixed(0)} m</div>
+                    {entry.grade !== null && entry.grade !== undefined && (
+                      <div>Grade: {entry.grade.toFixed(1)}%</div>
+                    )}
+                    {entry.eta !== undefined && <div>ETA: {formatDuration(entry.eta)}</div>}
+                  </div>
+                );
+              }}
+            />
             <XAxis 
               dataKey="distance" 
               tickFormatter={(value) => value.toFixed(1)}
@@ -94,11 +295,19 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
               domain={[minElevation * 0.9, maxElevation * 1.1]}
               tickFormatter={(value) => value.toFixed(0)}
             />
+            {activeOverlay && (
+              <YAxis
+                yAxisId="overlay"
+                orientation="right"
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => `${value.toFixed(0)} ${OVERLAYS[activeOverlay].unit}`}
+              />
+            )}
             <Area 
               type="monotone" 
               dataKey="elevation" 
-              stroke="#8884d8" 
-              fill="#8884d8" 
+              stroke={gradientStops.length > 0 ? `url(#${gradientId})` : "#8884d8"}
+              fill={gradientStops.length > 0 ? `url(#${gradientId})` : "#8884d8"}
               fillOpacity={0.6}
               activeDot={{ 
                 r: 6, 
@@ -107,6 +316,41 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
                 stroke: '#ffffff'
               }}
             />
+            {activeOverlay && (
+              <Line
+                yAxisId="overlay"
+                type="monotone"
+                dataKey={activeOverlay}
+                stroke={OVERLAYS[activeOverlay].color}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {climbs.map(climb => {
+              const style = getClimbStyle(climb.category);
+              return (
+                <ReferenceArea
+                  key={`climb-${climb.startIndex}`}
+                  x1={chartedDistance(climb.startDistance)}
+                  x2={chartedDistance(climb.endDistance)}
+                  fill={style.color}
+                  fillOpacity={0.12}
+                  stroke={style.color}
+                  strokeOpacity={0.4}
+                  label={{ value: style.label, position: 'insideTopLeft', fontSize: 11, fill: style.color }}
+                />
+              );
+            })}
+            {track.waypoints?.map((waypoint, idx) => (
+              <ReferenceLine
+                key={`waypoint-${idx}`}
+                x={chartedDistance(waypoint.distance ?? 0)}
+                stroke="#888888"
+                strokeDasharray="2 2"
+                label={{ value: WAYPOINT_ICONS[waypoint.category], position: 'insideTop' }}
+              />
+            ))}
             {activePointIndex !== null && (
               <CartesianGrid 
                 verticalPoints={[profileData[activePointIndex].distance]} 
@@ -114,9 +358,21 @@ export function TrackProfile({ track, onCursorChange }: TrackProfileProps) {
                 strokeDasharray="3 3" 
               />
             )}
-          </AreaChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+
+      {gradientDistances && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+          {GRADIENT_BANDS.map((band, idx) => (
+            <span key={band.label} className="flex items-center">
+              <span className="inline-block h-2.5 w-2.5 rounded-sm mr-1" style={{ backgroundColor: band.color }} />
+              {band.label}: {gradientDistances[idx].toFixed(1)} km
+            </span>
+          ))}
+          {stats.maxGrade !== undefined && <span>Max grade: {stats.maxGrade.toFixed(1)}%</span>}
+        </div>
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -3,7 +3,8 @@ import { ProcessedTrack } from '@/types';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './table';
 import { Button } from './button';
 import { toPng } from 'html-to-image';
-import { windArrow } from '@/lib/utils';
+import { formatDuration, windArrow } from '@/lib/utils';
+import { exportWeatherCsv, exportWeatherXlsx } from '@/lib/spreadsheet';
 
 interface WeatherTableProps {
   track: ProcessedTrack | null;
@@ -27,9 +28,23 @@ export function WeatherTable({ track }: WeatherTableProps) {
     );
   }
 
+  const fileName = `${track.name || 'track'} weather`;
+
   return (
     <div className="p-4 space-y-2">
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => exportWeatherCsv([track], fileName, {
+            decimalSeparator: (1.5).toLocaleString().includes(',') ? ',' : '.'
+          })}
+        >
+          Export CSV
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => exportWeatherXlsx([track], fileName)}>
+          Export XLSX
+        </Button>
         <Button size="sm" onClick={exportPng}>Export PNG</Button>
       </div>
       <div ref={tableRef} className="max-w-[600px] mx-auto overflow-auto max-h-80">
@@ -37,6 +52,7 @@ export function WeatherTable({ track }: WeatherTableProps) {
           <TableHeader>
             <TableRow>
               <TableHead>#</TableHead>
+              {track.estimate && <TableHead>ETA</TableHead>}
               <TableHead>Temp&nbsp;°C</TableHead>
               <TableHead>Wind</TableHead>
               <TableHead>Rain&nbsp;mm</TableHead>
@@ -46,6 +62,9 @@ export function WeatherTable({ track }: WeatherTableProps) {
             {track.weatherData.map((w, idx) => (
               <TableRow key={idx}>
                 <TableCell>{idx + 1}</TableCell>
+                {track.estimate && (
+                  <TableCell>{formatDuration(track.estimate.sampledPointTimes[idx] ?? 0)}</TableCell>
+                )}
                 <TableCell>{`${w.apparent_temperature_min.toFixed(0)}-${w.apparent_temperature_max.toFixed(0)}`}</TableCell>
                 <TableCell>{`${w.wind_speed_10m_max.toFixed(0)} km/h ${windArrow(w.wind_direction_10m_dominant)}`}</TableCell>
                 <TableCell>{w.rain_sum.toFixed(1)}</TableCell>
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { GpxPoint } from '@/types';
+import { addDistances } from '@/lib/utils';
+import { getActivityStats, getStops } from '@/lib/activity';
+
+const START = Date.UTC(2024, 5, 1, 8);
+const METERS_PER_DEGREE = 111195;
+
+// Deterministic noise in [-1, 1]
+function noise(seed: number): number {
+  const x = Math.sin(seed * 12.9898) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+}
+
+// A 1 Hz recording heading north at `speed` km/h, standing still (with ±2 m
+// of GPS jitter) during `stops` given as [start, end] seconds. The recording
+// can be paused for `pause` seconds after `pauseAt`, starting a new segment.
+function recordRide(
+  seconds: number,
+  speed: number,
+  stops: Array<[number, number]>,
+  { pauseAt = Infinity, pause = 0 } = {}
+): GpxPoint[] {
+  const points: GpxPoint[] = [];
+  let meters = 0;
+  for (let t = 0; t <= seconds; t++) {
+    const stopped = stops.some(([from, to]) => t > from && t <= to);
+    if (t > 0 && !stopped) meters += speed / 3.6;
+    const jitter = stopped ? 2 : 0;
+    points.push({
+      lat: 28 + (meters + jitter * noise(t)) / METERS_PER_DEGREE,
+      lon: -15.4 + (jitter * noise(t + 0.5)) / METERS_PER_DEGREE,
+      time: new Date(START + (t + (t > pauseAt ? pause : 0)) * 1000).toISOString(),
+      segment: t > pauseAt ? 1 : 0
+    });
+  }
+  return addDistances(points);
+}
+
+describe('auto-pause', () => {
+  it('finds a standstill despite GPS jitter', () => {
+    const points = recordRide(1800, 20, [[600, 1200]]);
+    const stats = getActivityStats(points)!;
+
+    expect(stats.elapsedTime).toBe(1800);
+    expect(stats.movingTime).toBeGreaterThan(1150);
+    expect(stats.movingTime).toBeLessThan(1250);
+    expect(stats.averageSpeed).toBeCloseTo(20, 0);
+
+    const stops = getStops(points);
+    expect(stops).toHaveLength(1);
+    expect(stops[0].duration).toBeGreaterThan(550);
+    expect(stops[0].duration).toBeLessThanOrEqual(600);
+    expect(stops[0].distance).toBeCloseTo(600 * 20 / 3600, 1);
+  });
+
+  it('leaves out short halts and counts segment gaps as stops', () => {
+    const points = recordRide(1200, 20, [[300, 360], [800, 1100]], { pauseAt: 600, pause: 900 });
+    const stops = getStops(points);
+
+    expect(stops.map(stop => Math.round(stop.duration / 60))).toEqual([15, 5]);
+    expect(stops[0].index).toBe(600);
+    expect(getActivityStats(points)!.elapsedTime).toBe(2100);
+  });
+
+  it('has no activity without timestamps', () => {
+    const points = recordRide(60, 20, []).map(point => ({ ...point, time: undefined }));
+
+    expect(getActivityStats(points)).toBeNull();
+    expect(getStops(points)).toEqual([]);
+  });
+});
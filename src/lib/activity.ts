@@ -0,0 +1,196 @@
+import { ActivityStats, ActivityStop, GpxPoint, ProcessedTrack, RideSchedule } from '@/types';
+import { DEFAULT_PACE_SETTINGS, estimatePace, getPointEtas } from '@/lib/pace';
+import { calculateDistance } from '@/lib/utils';
+
+// Below this speed (km/h) the rider is considered stopped
+export const MOVING_SPEED_THRESHOLD = 1.5;
+
+const DEFAULT_START_TIME = '08:00';
+
+// Standstills shorter than this (seconds) are not listed as stops, traffic
+// lights and the like
+export const MIN_STOP_DURATION = 120;
+
+// Longest stops listed with the activity and marked on the map
+export const MAX_LISTED_STOPS = 5;
+
+// Seconds around each point over which auto-pause measures how far the rider
+// got. GPS jitter of a few meters adds up along the path at 1 Hz, but not in
+// the straight-line distance over half a minute.
+const AUTO_PAUSE_WINDOW = 30;
+
+// Number of neighbours on each side used to smooth speeds
+const SPEED_WINDOW = 2;
+
+function getTime(point: GpxPoint): number {
+  return point.time ? Date.parse(point.time) : NaN;
+}
+
+export function hasTimestamps(points: GpxPoint[]): boolean {
+  return points.filter(p => !isNaN(getTime(p))).length >= 2;
+}
+
+// Speed in km/h at each point, averaged over a few neighbours within the same
+// segment to smooth out GPS jitter. Null where it cannot be computed.
+export function getPointSpeeds(points: GpxPoint[]): Array<number | null> {
+  return points.map((point, index) => {
+    const segment = point.segment ?? 0;
+    let from = index;
+    let to = index;
+    while (from > 0 && index - from < SPEED_WINDOW && (points[from - 1].segment ?? 0) === segment) from--;
+    while (to < points.length - 1 && to - index < SPEED_WINDOW && (points[to + 1].segment ?? 0) === segment) to++;
+
+    const hours = (getTime(points[to]) - getTime(points[from])) / 3600000;
+    const distance = (points[to].distance ?? 0) - (points[from].distance ?? 0);
+    return hours > 0 ? distance / hours : null;
+  });
+}
+
+// Auto-pause: whether the rider was moving at each point, judged by the
+// straight-line distance covered within `AUTO_PAUSE_WINDOW` around it in the
+// same segment. Points too sparse for the window use their direct neighbours.
+function getMovingPoints(points: GpxPoint[]): boolean[] {
+  const times = points.map(getTime);
+  const segment = (idx: number) => points[idx].segment ?? 0;
+  const usable = (idx: number, from: number) => !isNaN(times[idx]) && segment(idx) === segment(from);
+
+  return points.map((_, index) => {
+    if (isNaN(times[index])) return false;
+    let from = index;
+    let to = index;
+    while (from > 0 && usable(from - 1, index) && times[index] - times[from - 1] <= AUTO_PAUSE_WINDOW * 500) from--;
+    while (to < points.length - 1 && usable(to + 1, index) && times[to + 1] - times[index] <= AUTO_PAUSE_WINDOW * 500) to++;
+    if (from === index && index > 0 && usable(index - 1, index)) from--;
+    if (to === index && index < points.length - 1 && usable(index + 1, index)) to++;
+
+    const hours = (times[to] - times[from]) / 3600000;
+    if (!(hours > 0)) return false;
+    const distance = calculateDistance(points[from].lat, points[from].lon, points[to].lat, points[to].lon);
+    return distance / hours >= MOVING_SPEED_THRESHOLD;
+  });
+}
+
+// Seconds and km of each stretch from the previous point, and whether
+// auto-pause counts it as moving: both of its ends must be. Stretches
+// across a segment gap are never moving.
+function getIntervals(points: GpxPoint[]) {
+  const moving = getMovingPoints(points);
+  return points.map((point, i) => {
+    if (i === 0) return { seconds: 0, distance: 0, moving: false };
+    const newSegment = (point.segment ?? 0) !== (points[i - 1].segment ?? 0);
+    return {
+      seconds: (getTime(point) - getTime(points[i - 1])) / 1000,
+      distance: (point.distance ?? 0) - (points[i - 1].distance ?? 0),
+      moving: !newSegment && moving[i - 1] && moving[i]
+    };
+  });
+}
+
+function summarize(values: number[]) {
+  if (!values.length) return {};
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  return { average: sum / values.length, min, max };
+}
+
+// Elapsed and moving time, speeds, heart rate and temperature of a recorded
+// track. Returns null when the points carry no timestamps.
+export function getActivityStats(points: GpxPoint[]): ActivityStats | null {
+  if (!hasTimestamps(points)) return null;
+
+  const times = points.map(getTime).filter(t => !isNaN(t));
+  const elapsedTime = (times[times.length - 1] - times[0]) / 1000;
+
+  let movingTime = 0;
+  let movingDistance = 0;
+  getIntervals(points).forEach(({ seconds, distance, moving }) => {
+    if (!moving || !(seconds > 0)) return;
+    movingTime += seconds;
+    movingDistance += distance;
+  });
+
+  const speeds = getPointSpeeds(points).filter((s): s is number => s !== null);
+  const hr = summarize(points.flatMap(p => p.hr ?? []));
+  const temp = summarize(points.flatMap(p => p.atemp ?? []));
+
+  return {
+    elapsedTime,
+    movingTime,
+    averageSpeed: movingTime > 0 ? movingDistance / (movingTime / 3600) : 0,
+    maxSpeed: speeds.length ? summarize(speeds).max! : 0,
+    averageHr: hr.average,
+    maxHr: hr.max,
+    averageTemp: temp.average,
+    minTemp: temp.min,
+    maxTemp: temp.max
+  };
+}
+
+// Stops of a recorded track, longest first: the stretches auto-pause leaves
+// out of the moving time, plus the gaps between segments where the recording
+// was paused.
+export function getStops(points: GpxPoint[], minDuration = MIN_STOP_DURATION): ActivityStop[] {
+  if (!hasTimestamps(points)) return [];
+
+  const stops: ActivityStop[] = [];
+  let current: ActivityStop | null = null;
+  getIntervals(points).forEach(({ seconds, moving }, i) => {
+    if (!(seconds > 0)) return;
+    if (moving) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      const point = points[i - 1];
+      current = {
+        index: i - 1,
+        lat: point.lat,
+        lon: point.lon,
+        distance: point.distance ?? 0,
+        start: getTime(point),
+        duration: 0
+      };
+      stops.push(current);
+    }
+    current.duration += seconds;
+  });
+
+  return stops.filter(stop => stop.duration >= minDuration).sort((a, b) => b.duration - a.duration);
+}
+
+// Recorded tracks take as long as they did, planned ones as long as their
+// pace estimate says. Returns seconds.
+export function estimateDuration(track: ProcessedTrack): number {
+  const activityStats = getActivityStats(track.points);
+  if (activityStats && activityStats.elapsedTime > 0) return activityStats.elapsedTime;
+  return (track.estimate ?? estimatePace(track, DEFAULT_PACE_SETTINGS)).duration;
+}
+
+// Local start of a planned ride, on the day its forecast was fetched for
+export function getRideStart(track: ProcessedTrack, schedule: RideSchedule): Date {
+  const [hours, minutes] = (schedule.startTime || DEFAULT_START_TIME).split(':').map(Number);
+  const [year, month, day] = (track.weatherData?.[0]?.time || schedule.forecastDate).split('-').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+}
+
+// Timestamp (ms) of every point: the recorded time when the track has one,
+// otherwise the time the rider gets there with the pace of its estimate
+export function getPointTimes(track: ProcessedTrack, schedule: RideSchedule): number[] {
+  if (hasTimestamps(track.points)) {
+    let previous = getTime(track.points.find(p => !isNaN(getTime(p)))!);
+    return track.points.map(point => {
+      const time = getTime(point);
+      if (!isNaN(time)) previous = time;
+      return previous;
+    });
+  }
+  const start = getRideStart(track, schedule).getTime();
+  const etas = getPointEtas(track.points, track.estimate?.settings ?? DEFAULT_PACE_SETTINGS);
+  return etas.map(eta => start + eta * 1000);
+}
@@ -0,0 +1,146 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { ProcessedTrack, RestoreMode, UserSettings, WorkspaceBackup } from '@/types';
+import {
+  downloadFile,
+  getWeatherCache,
+  loadSettings,
+  loadTracks,
+  saveSettings,
+  saveTracks,
+  saveWeatherCache
+} from '@/lib/utils';
+
+// Bump when the backup layout changes; older versions must stay restorable
+export const BACKUP_VERSION = 1;
+
+const BACKUP_FILE_NAME = 'workspace.json';
+
+interface BackupOptions {
+  theme?: WorkspaceBackup['theme'];
+  includeCache?: boolean;
+}
+
+// Snapshot of the stored tracks and settings, and optionally the weather cache
+export function createBackup({ theme, includeCache = false }: BackupOptions = {}): WorkspaceBackup {
+  return {
+    app: 'trailcast',
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    tracks: loadTracks(),
+    settings: loadSettings(),
+    theme,
+    ...(includeCache ? { weatherCache: getWeatherCache() } : {})
+  };
+}
+
+// Download a backup as JSON, or zipped (weather caches compress well)
+export function exportBackup(options: BackupOptions & { compress?: boolean } = {}) {
+  const json = JSON.stringify(createBackup(options));
+  const fileName = `trailcast-backup-${new Date().toISOString().split('T')[0]}`;
+  if (options.compress) {
+    downloadFile(zipSync({ [BACKUP_FILE_NAME]: strToU8(json) }), `${fileName}.zip`, 'application/zip');
+  } else {
+    downloadFile(json, `${fileName}.json`, 'application/json');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidTrack(value: unknown): value is ProcessedTrack {
+  return isObject(value) &&
+    typeof value.id === 'string' &&
+    Array.isArray(value.points) &&
+    value.points.every(point => isObject(point) && typeof point.lat === 'number' && typeof point.lon === 'number');
+}
+
+// Check that parsed JSON is a backup this version can restore
+export function validateBackup(json: unknown): WorkspaceBackup {
+  if (!isObject(json) || json.app !== 'trailcast' || typeof json.version !== 'number') {
+    throw new Error('Not a TrailCast backup');
+  }
+  if (json.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${json.version} is newer than this app supports (${BACKUP_VERSION})`);
+  }
+  if (!Array.isArray(json.tracks)) {
+    throw new Error('Backup has no track list');
+  }
+  const invalidCount = json.tracks.filter(track => !isValidTrack(track)).length;
+  if (invalidCount > 0) {
+    throw new Error(`Backup contains ${invalidCount} invalid track${invalidCount !== 1 ? 's' : ''}`);
+  }
+  if (!isObject(json.settings) || typeof json.settings.forecastDate !== 'string') {
+    throw new Error('Backup has no valid settings');
+  }
+  if (json.weatherCache !== undefined && !isObject(json.weatherCache)) {
+    throw new Error('Backup has an invalid weather cache');
+  }
+  return json as unknown as WorkspaceBackup;
+}
+
+// Read a backup file written by `exportBackup`, zipped or not
+export async function readBackup(file: File): Promise<WorkspaceBackup> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  let text: string;
+  // Zip archives start with "PK"
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    const files = unzipSync(data, { filter: entry => entry.name.endsWith('.json') });
+    const json = files[BACKUP_FILE_NAME] ?? Object.values(files)[0];
+    if (!json) {
+      throw new Error('Archive does not contain a backup');
+    }
+    text = strFromU8(json);
+  } else {
+    text = strFromU8(data);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Backup is not valid JSON');
+  }
+  return validateBackup(json);
+}
+
+// Tracks from both lists; when both have the same track, the most recently
+// updated copy wins
+export function mergeTracks(current: ProcessedTrack[], incoming: ProcessedTrack[]): ProcessedTrack[] {
+  const merged = [...current];
+  incoming.forEach(track => {
+    const idx = merged.findIndex(t => t.id === track.id);
+    if (idx === -1) {
+      merged.push(track);
+    } else if ((track.updatedAt || 0) > (merged[idx].updatedAt || 0)) {
+      merged[idx] = track;
+    }
+  });
+  return merged;
+}
+
+// Write a backup to localStorage. Replace takes the backup as is; merge adds
+// its tracks and cache entries but keeps the current settings.
+export function restoreBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+): { tracks: ProcessedTrack[]; settings: UserSettings } {
+  const tracks = mode === 'replace' ? backup.tracks : mergeTracks(loadTracks(), backup.tracks);
+  const settings = mode === 'replace' ? { ...loadSettings(), ...backup.settings } : loadSettings();
+
+  if (backup.weatherCache && mode === 'replace') {
+    saveWeatherCache(backup.weatherCache);
+  } else if (backup.weatherCache) {
+    const weatherCache = getWeatherCache();
+    Object.entries(backup.weatherCache).forEach(([key, entry]) => {
+      if (!weatherCache[key] || weatherCache[key].timestamp < entry.timestamp) {
+        weatherCache[key] = entry;
+      }
+    });
+    saveWeatherCache(weatherCache);
+  }
+  saveTracks(tracks);
+  saveSettings(settings);
+
+  return { tracks, settings };
+}
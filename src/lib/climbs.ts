@@ -0,0 +1,131 @@
+import { GpxPoint } from '@/types';
+import { getPointGrades } from '@/lib/gradient';
+
+export type ClimbCategory = '4' | '3' | '2' | '1' | 'HC';
+
+export interface Climb {
+  /** Indexes of the first and last point of the climb in the track */
+  startIndex: number;
+  endIndex: number;
+  startDistance: number; // km
+  endDistance: number; // km
+  length: number; // km
+  gain: number; // meters from the bottom to the top
+  averageGrade: number; // percent
+  maxGrade: number; // percent
+  category: ClimbCategory;
+}
+
+// Dips and bumps smaller than this (meters) do not end or start a climb
+const CLIMB_REVERSAL = 40;
+
+// Flat run-ups and summit plateaus within this many meters of the bottom and
+// top are trimmed off, they would water down the average grade
+const CLIMB_TRIM = 5;
+
+// Climbs flatter than this (percent) are not categorised, however long
+const MIN_CLIMB_GRADE = 3;
+
+// Lower bounds of the length (m) × average grade (%) score for each category
+export const CLIMB_CATEGORIES: Array<{ category: ClimbCategory; minScore: number; label: string; color: string }> = [
+  { category: 'HC', minScore: 80000, label: 'HC', color: '#7f1d1d' },
+  { category: '1', minScore: 64000, label: 'Cat 1', color: '#b91c1c' },
+  { category: '2', minScore: 32000, label: 'Cat 2', color: '#ea580c' },
+  { category: '3', minScore: 16000, label: 'Cat 3', color: '#f59e0b' },
+  { category: '4', minScore: 8000, label: 'Cat 4', color: '#eab308' }
+];
+
+export function getClimbCategory(length: number, averageGrade: number): ClimbCategory | null {
+  if (averageGrade < MIN_CLIMB_GRADE) return null;
+  const score = length * 1000 * averageGrade;
+  return CLIMB_CATEGORIES.find(c => score >= c.minScore)?.category ?? null;
+}
+
+// Alternating valleys and peaks of a segment, like the peaks and valleys of
+// the weather point sampling but with a hysteresis: a turn only counts once
+// the elevation went back by `reversal` meters, so each climb runs from its
+// lowest to its highest point.
+function findTurningPoints(points: GpxPoint[], indexes: number[], reversal: number): Array<{ index: number; peak: boolean }> {
+  const turns: Array<{ index: number; peak: boolean }> = [];
+  if (!indexes.length) return turns;
+
+  const ele = (idx: number) => points[idx].ele!;
+  let direction = 0; // 1 climbing, -1 descending
+  let lowest = indexes[0];
+  let highest = indexes[0];
+  indexes.forEach(idx => {
+    if (ele(idx) < ele(lowest)) lowest = idx;
+    if (ele(idx) > ele(highest)) highest = idx;
+
+    if (direction !== 1 && ele(idx) - ele(lowest) >= reversal) {
+      turns.push({ index: lowest, peak: false });
+      direction = 1;
+      highest = idx;
+    } else if (direction !== -1 && ele(highest) - ele(idx) >= reversal) {
+      if (direction === 1) turns.push({ index: highest, peak: true });
+      direction = -1;
+      lowest = idx;
+    }
+  });
+  if (direction === 1) turns.push({ index: highest, peak: true });
+  return turns;
+}
+
+// Climbs of a track with their length, gain, grades and category, in the
+// order they are ridden. Climbs too short or flat for Cat 4 are left out.
+export function detectClimbs(points: GpxPoint[]): Climb[] {
+  const grades = getPointGrades(points);
+
+  // Indexes of the points with elevation, per segment
+  const segments: number[][] = [];
+  points.forEach((point, idx) => {
+    if (idx === 0 || (points[idx - 1].segment ?? 0) !== (point.segment ?? 0)) segments.push([]);
+    if (point.ele !== undefined) segments[segments.length - 1].push(idx);
+  });
+
+  return segments.flatMap(indexes => {
+    const turns = findTurningPoints(points, indexes, CLIMB_REVERSAL);
+    return turns.flatMap((turn, idx): Climb[] => {
+      const top = turns[idx + 1];
+      if (turn.peak || !top) return [];
+
+      // Last point near the bottom and first point near the top
+      const range = indexes.slice(indexes.indexOf(turn.index), indexes.indexOf(top.index) + 1);
+      const bottom = points[turn.index].ele!;
+      const summit = points[top.index].ele!;
+      const startIndex = range.filter(i => points[i].ele! <= bottom + CLIMB_TRIM).pop() ?? turn.index;
+      const endIndex = range.find(i => i >= startIndex && points[i].ele! >= summit - CLIMB_TRIM) ?? top.index;
+
+      const start = points[startIndex];
+      const end = points[endIndex];
+      const length = (end.distance ?? 0) - (start.distance ?? 0);
+      const gain = end.ele! - start.ele!;
+      if (length <= 0) return [];
+      const averageGrade = (gain / (length * 1000)) * 100;
+      const category = getClimbCategory(length, averageGrade);
+      if (!category) return [];
+
+      let maxGrade = averageGrade;
+      for (let i = startIndex; i <= endIndex; i++) {
+        const grade = grades[i];
+        if (grade !== null && grade > maxGrade) maxGrade = grade;
+      }
+
+      return [{
+        startIndex,
+        endIndex,
+        startDistance: start.distance ?? 0,
+        endDistance: end.distance ?? 0,
+        length,
+        gain,
+        averageGrade,
+        maxGrade,
+        category
+      }];
+    });
+  });
+}
+
+export function getClimbStyle(category: ClimbCategory) {
+  return CLIMB_CATEGORIES.find(c => c.category === category)!;
+}
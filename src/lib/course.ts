@@ -0,0 +1,383 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ProcessedTrack, RideSchedule, WaypointCategory, WeatherData } from '@/types';
+import { downloadFile, escapeXml, findPointIndexAtDistance, splitSegments, trackFileNames, windArrow } from '@/lib/utils';
+import { getPointTimes } from '@/lib/activity';
+
+type CoursePointType = 'generic' | 'summit' | 'water' | 'food' | 'first_aid';
+
+interface CoursePoint {
+  name: string;
+  notes?: string;
+  /** Forecast of weather points, without the distance */
+  forecast?: string;
+  lat: number;
+  lon: number;
+  ele?: number;
+  distance: number; // km
+  time: number; // ms
+  type: CoursePointType;
+}
+
+const WAYPOINT_TYPES: Record<WaypointCategory, CoursePointType> = {
+  water: 'water',
+  food: 'food',
+  ferry: 'generic',
+  camp: 'generic',
+  summit: 'summit',
+  other: 'generic'
+};
+
+// Short forecast for the small screen of a GPS unit, e.g. "18-24°C, 30 km/h ↘, 2 mm"
+function formatCueForecast(weather: WeatherData): string {
+  const temp = `${weather.apparent_temperature_min.toFixed(0)}-${weather.apparent_temperature_max.toFixed(0)}°C`;
+  const wind = `${weather.wind_speed_10m_max.toFixed(0)} km/h ${windArrow(weather.wind_direction_10m_dominant)}`;
+  return `${temp}, ${wind}, ${Number(weather.rain_sum.toFixed(1))} mm`;
+}
+
+// Weather points and waypoints as course points, in the order they are reached
+function getCoursePoints(track: ProcessedTrack, times: number[]): CoursePoint[] {
+  const timeAt = (distance: number) => times[findPointIndexAtDistance(track.points, distance)];
+
+  const weatherPoints = (track.sampledPoints || []).flatMap((point, idx): CoursePoint[] => {
+    const weather = track.weatherData?.[idx];
+    if (!weather) return [];
+    const distance = point.distance ?? 0;
+    const forecast = formatCueForecast(weather);
+    return [{
+      name: `km ${distance.toFixed(0)}`,
+      notes: `km ${distance.toFixed(0)}: ${forecast}`,
+      forecast,
+      lat: point.lat,
+      lon: point.lon,
+      ele: point.ele,
+      distance,
+      time: timeAt(distance),
+      type: 'generic'
+    }];
+  });
+
+  const waypoints = (track.waypoints || []).flatMap((waypoint): CoursePoint[] => {
+    if (waypoint.distance === undefined) return [];
+    return [{
+      name: waypoint.name || waypoint.category,
+      notes: waypoint.description,
+      lat: waypoint.lat,
+      lon: waypoint.lon,
+      ele: waypoint.ele,
+      distance: waypoint.distance,
+      time: timeAt(waypoint.distance),
+      type: WAYPOINT_TYPES[waypoint.category]
+    }];
+  });
+
+  return [...weatherPoints, ...waypoints].sort((a, b) => a.distance - b.distance);
+}
+
+const TCX_POINT_TYPES: Record<CoursePointType, string> = {
+  generic: 'Generic',
+  summit: 'Summit',
+  water: 'Water',
+  food: 'Food',
+  first_aid: 'First Aid'
+};
+
+function tcxTime(time: number): string {
+  return new Date(Math.round(time / 1000) * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function tcxPosition(lat: number, lon: number): string {
+  return `<Position><LatitudeDegrees>${lat.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${lon.toFixed(7)}</LongitudeDegrees></Position>`;
+}
+
+// Garmin Training Center course. Names are cut to the lengths the schema
+// allows (15 characters for the course, 10 for course points).
+export function trackToTcx(track: ProcessedTrack, schedule: RideSchedule): string {
+  const times = getPointTimes(track, schedule);
+  const first = track.points[0];
+  const last = track.points[track.points.length - 1];
+  const totalDistance = (last?.distance ?? 0) * 1000;
+
+  let index = 0;
+  const trackXml = splitSegments(track.points).map(segment => {
+    const points = segment.map(point => {
+      const time = times[index++];
+      return '        <Trackpoint>' +
+        `<Time>${tcxTime(time)}</Time>` +
+        tcxPosition(point.lat, point.lon) +
+        (point.ele !== undefined ? `<AltitudeMeters>${point.ele.toFixed(1)}</AltitudeMeters>` : '') +
+        `<DistanceMeters>${((point.distance ?? 0) * 1000).toFixed(1)}</DistanceMeters>` +
+        '</Trackpoint>';
+    });
+    return `      <Track>\n${points.join('\n')}\n      </Track>`;
+  });
+
+  const coursePointsXml = getCoursePoints(track, times).map(point =>
+    '      <CoursePoint>' +
+    `<Name>${escapeXml(point.name.slice(0, 10))}</Name>` +
+    `<Time>${tcxTime(point.time)}</Time>` +
+    tcxPosition(point.lat, point.lon) +
+    (point.ele !== undefined ? `<AltitudeMeters>${point.ele.toFixed(1)}</AltitudeMeters>` : '') +
+    `<PointType>${TCX_POINT_TYPES[point.type]}</PointType>` +
+    (point.notes ? `<Notes>${escapeXml(point.notes)}</Notes>` : '') +
+    '</CoursePoint>'
+  );
+
+  const lapXml = first && last
+    ? '      <Lap>' +
+      `<TotalTimeSeconds>${((times[times.length - 1] - times[0]) / 1000).toFixed(0)}</TotalTimeSeconds>` +
+      `<DistanceMeters>${totalDistance.toFixed(1)}</DistanceMeters>` +
+      `<BeginPosition><LatitudeDegrees>${first.lat.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${first.lon.toFixed(7)}</LongitudeDegrees></BeginPosition>` +
+      `<EndPosition><LatitudeDegrees>${last.lat.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${last.lon.toFixed(7)}</LongitudeDegrees></EndPosition>` +
+      '<Intensity>Active</Intensity>' +
+      '</Lap>'
+    : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+      'xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+    '  <Courses>',
+    '    <Course>',
+    `      <Name>${escapeXml((track.name || 'Course').slice(0, 15))}</Name>`,
+    lapXml,
+    ...trackXml,
+    ...coursePointsXml,
+    '    </Course>',
+    '  </Courses>',
+    '</TrainingCenterDatabase>',
+    ''
+  ].filter(line => line !== '').join('\n') + '\n';
+}
+
+// FIT protocol constants, see the Garmin FIT SDK profile
+const FIT_EPOCH = Date.UTC(1989, 11, 31);
+const FIT_PROFILE_VERSION = 2132;
+const FIT_STRING_SIZE = 32;
+const SEMICIRCLES = 2 ** 31 / 180;
+
+const BASE_TYPES = {
+  enum: 0x00,
+  uint8: 0x02,
+  uint16: 0x84,
+  sint32: 0x85,
+  uint32: 0x86,
+  string: 0x07
+} as const;
+
+type BaseType = keyof typeof BASE_TYPES;
+
+const BASE_TYPE_SIZES: Record<BaseType, number> = { enum: 1, uint8: 1, uint16: 2, sint32: 4, uint32: 4, string: FIT_STRING_SIZE };
+
+interface FitMessage {
+  globalNumber: number;
+  fields: Array<[fieldNumber: number, type: BaseType]>;
+}
+
+// Message layouts used in a course file: [field number, base type]
+const FIT_MESSAGES = {
+  fileId: { globalNumber: 0, fields: [[0, 'enum'], [1, 'uint16'], [2, 'uint16'], [4, 'uint32']] },
+  course: { globalNumber: 31, fields: [[4, 'enum'], [5, 'string']] },
+  lap: {
+    globalNumber: 19,
+    fields: [[253, 'uint32'], [2, 'uint32'], [3, 'sint32'], [4, 'sint32'], [5, 'sint32'], [6, 'sint32'], [7, 'uint32'], [8, 'uint32'], [9, 'uint32']]
+  },
+  event: { globalNumber: 21, fields: [[253, 'uint32'], [0, 'enum'], [1, 'enum'], [4, 'uint8']] },
+  record: { globalNumber: 20, fields: [[253, 'uint32'], [0, 'sint32'], [1, 'sint32'], [2, 'uint16'], [5, 'uint32']] },
+  coursePoint: {
+    globalNumber: 32,
+    fields: [[254, 'uint16'], [1, 'uint32'], [2, 'sint32'], [3, 'sint32'], [4, 'uint32'], [5, 'enum'], [6, 'string']]
+  }
+} satisfies Record<string, FitMessage>;
+
+const FIT_POINT_TYPES: Record<CoursePointType, number> = { generic: 0, summit: 1, water: 3, food: 4, first_aid: 9 };
+
+// Values that mark a field as not set
+const INVALID: Record<BaseType, number> = { enum: 0xff, uint8: 0xff, uint16: 0xffff, sint32: 0x7fffffff, uint32: 0xffffffff, string: 0 };
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400
+];
+
+function fitCrc(data: Uint8Array, crc = 0): number {
+  data.forEach(byte => {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  });
+  return crc;
+}
+
+function fitTime(time: number): number {
+  return Math.round((time - FIT_EPOCH) / 1000);
+}
+
+function semicircles(degrees: number): number {
+  return Math.round(degrees * SEMICIRCLES);
+}
+
+// Encodes definition and data records, giving every message type its own
+// local message number
+function createFitWriter() {
+  const chunks: Uint8Array[] = [];
+  const localNumbers = new Map<FitMessage, number>();
+  const encoder = new TextEncoder();
+
+  const define = (message: FitMessage, local: number) => {
+    const bytes = new Uint8Array(6 + message.fields.length * 3);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = 0x40 | local;
+    // Byte 1 is reserved, byte 2 selects little endian
+    view.setUint16(3, message.globalNumber, true);
+    bytes[5] = message.fields.length;
+    message.fields.forEach(([fieldNumber, type], idx) => {
+      bytes[6 + idx * 3] = fieldNumber;
+      bytes[7 + idx * 3] = BASE_TYPE_SIZES[type];
+      bytes[8 + idx * 3] = BASE_TYPES[type];
+    });
+    chunks.push(bytes);
+  };
+
+  const write = (message: FitMessage, values: Array<number | string | undefined>) => {
+    let local = localNumbers.get(message);
+    if (local === undefined) {
+      local = localNumbers.size;
+      localNumbers.set(message, local);
+      define(message, local);
+    }
+
+    const size = message.fields.reduce((total, [, type]) => total + BASE_TYPE_SIZES[type], 1);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = local;
+    let offset = 1;
+    message.fields.forEach(([, type], idx) => {
+      const value = values[idx];
+      if (type === 'string') {
+        // Null terminated, cut on a character boundary
+        let text = String(value ?? '');
+        while (encoder.encode(text).length >= FIT_STRING_SIZE) text = text.slice(0, -1);
+        bytes.set(encoder.encode(text), offset);
+      } else {
+        const number = typeof value === 'number' && isFinite(value) ? value : INVALID[type];
+        if (type === 'enum' || type === 'uint8') view.setUint8(offset, number);
+        else if (type === 'uint16') view.setUint16(offset, number, true);
+        else if (type === 'sint32') view.setInt32(offset, number, true);
+        else view.setUint32(offset, number, true);
+      }
+      offset += BASE_TYPE_SIZES[type];
+    });
+    chunks.push(bytes);
+  };
+
+  const finish = (): Uint8Array => {
+    const dataSize = chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const file = new Uint8Array(14 + dataSize + 2);
+    const view = new DataView(file.buffer);
+    file[0] = 14;
+    file[1] = 0x20; // protocol version 2.0
+    view.setUint16(2, FIT_PROFILE_VERSION, true);
+    view.setUint32(4, dataSize, true);
+    file.set(encoder.encode('.FIT'), 8);
+    view.setUint16(12, fitCrc(file.subarray(0, 12)), true);
+    let offset = 14;
+    chunks.forEach(chunk => {
+      file.set(chunk, offset);
+      offset += chunk.length;
+    });
+    view.setUint16(offset, fitCrc(file.subarray(0, offset)), true);
+    return file;
+  };
+
+  return { write, finish };
+}
+
+// FIT course as Garmin devices expect it: file id, course, lap, timer start,
+// the records with the course points in between, timer stop
+export function trackToFit(track: ProcessedTrack, schedule: RideSchedule): Uint8Array {
+  const times = getPointTimes(track, schedule);
+  const writer = createFitWriter();
+  const first = track.points[0];
+  const last = track.points[track.points.length - 1];
+  const start = fitTime(times[0] ?? Date.now());
+  const end = fitTime(times[times.length - 1] ?? Date.now());
+  const distance = (point: { distance?: number }) => Math.round((point.distance ?? 0) * 100000);
+
+  // type 6 = course, manufacturer 255 = development
+  writer.write(FIT_MESSAGES.fileId, [6, 255, 0, fitTime(Date.now())]);
+  // sport 2 = cycling
+  writer.write(FIT_MESSAGES.course, [2, track.name || 'Course']);
+  if (first && last) {
+    writer.write(FIT_MESSAGES.lap, [
+      end,
+      start,
+      semicircles(first.lat),
+      semicircles(first.lon),
+      semicircles(last.lat),
+      semicircles(last.lon),
+      (end - start) * 1000,
+      (end - start) * 1000,
+      distance(last)
+    ]);
+  }
+  // event 0 = timer, type 0 = start
+  writer.write(FIT_MESSAGES.event, [start, 0, 0, 0]);
+
+  const coursePoints = getCoursePoints(track, times);
+  let nextCoursePoint = 0;
+  track.points.forEach((point, idx) => {
+    writer.write(FIT_MESSAGES.record, [
+      fitTime(times[idx]),
+      semicircles(point.lat),
+      semicircles(point.lon),
+      point.ele !== undefined ? Math.round((point.ele + 500) * 5) : undefined,
+      distance(point)
+    ]);
+    while (nextCoursePoint < coursePoints.length && coursePoints[nextCoursePoint].distance <= (point.distance ?? 0)) {
+      const coursePoint = coursePoints[nextCoursePoint];
+      // The name is all most devices show, so weather points carry the forecast
+      writer.write(FIT_MESSAGES.coursePoint, [
+        nextCoursePoint,
+        fitTime(coursePoint.time),
+        semicircles(coursePoint.lat),
+        semicircles(coursePoint.lon),
+        distance(coursePoint),
+        FIT_POINT_TYPES[coursePoint.type],
+        coursePoint.forecast ?? coursePoint.name
+      ]);
+      nextCoursePoint++;
+    }
+  });
+
+  // event 0 = timer, type 9 = stop disable all
+  writer.write(FIT_MESSAGES.event, [end, 0, 9, 0]);
+  return writer.finish();
+}
+
+export type CourseFormat = 'tcx' | 'fit';
+
+// Devices load one course per file, so several tracks are downloaded as a ZIP
+// with one course file each
+export function exportCourses(tracks: ProcessedTrack[], title: string, format: CourseFormat, schedule: RideSchedule) {
+  if (!tracks.length) return;
+
+  const encode = (track: ProcessedTrack) =>
+    format === 'fit' ? trackToFit(track, schedule) : strToU8(trackToTcx(track, schedule));
+  if (tracks.length === 1) {
+    downloadFile(
+      encode(tracks[0]),
+      `${title}.${format}`,
+      format === 'fit' ? 'application/vnd.ant.fit' : 'application/vnd.garmin.tcx+xml'
+    );
+    return;
+  }
+
+  const names = trackFileNames(tracks, format);
+  const files: Record<string, Uint8Array> = {};
+  tracks.forEach((track, idx) => {
+    files[names[idx]] = encode(track);
+  });
+  downloadFile(zipSync(files), `${title}.zip`, 'application/zip');
+}
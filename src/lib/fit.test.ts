@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseFit } from '@/lib/fit';
+
+function readFixture(name: string): ArrayBuffer {
+  const buffer = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+}
+
+describe('parseFit', () => {
+  it('reads the records of a course with their sensor values', () => {
+    const [track] = parseFit(readFixture('course.fit'));
+
+    expect(track.name).toBe('Fixture Course');
+    expect(track.points).toHaveLength(4);
+    expect(track.points[0].lat).toBeCloseTo(28.1, 6);
+    expect(track.points[0].lon).toBeCloseTo(-15.45, 6);
+    expect(track.points[0]).toMatchObject({
+      ele: 120,
+      time: '2024-05-18T20:53:20.000Z',
+      hr: 130,
+      cad: 85,
+      power: 210,
+      distance: 0
+    });
+    expect(track.points[3].distance).toBeGreaterThan(track.points[2].distance!);
+  });
+
+  it('restores the time of a record with a compressed timestamp header', () => {
+    const [track] = parseFit(readFixture('course.fit'));
+
+    expect(track.points[3]).toMatchObject({ ele: 138, hr: 140, time: '2024-05-18T20:53:45.000Z' });
+  });
+
+  it('turns course points into typed waypoints', () => {
+    const [track] = parseFit(readFixture('course.fit'));
+
+    expect(track.waypoints?.map(({ name, type, category }) => ({ name, type, category }))).toEqual([
+      { name: 'Fuente', type: 'water', category: 'water' },
+      { name: 'Sprint', type: 'sprint', category: 'other' },
+      { name: 'Top', type: 'summit (cat 1 climb)', category: 'summit' },
+      { name: 'Ramp', type: 'sharp curve', category: 'other' },
+      { name: 'Night 1', type: 'campsite', category: 'camp' },
+      { name: 'Gel', type: 'energy gel', category: 'food' },
+      { name: 'Hut', type: 'shelter', category: 'camp' },
+      { name: 'Bus', type: 'transport', category: 'ferry' },
+      // Types added to the FIT profile later keep their number
+      { name: 'Later', type: 'course point 60', category: 'other' }
+    ]);
+  });
+
+  it('rejects files without the FIT signature', () => {
+    expect(() => parseFit(new TextEncoder().encode('<gpx></gpx>  ').buffer)).toThrow('Not a FIT file');
+  });
+});
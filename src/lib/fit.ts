@@ -0,0 +1,318 @@
+import { GpxPoint, ParsedTrack, Waypoint, WaypointCategory } from '@/types';
+import { addDistances, attachWaypoints, getWaypointCategory } from '@/lib/utils';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+export const FIT_EPOCH_OFFSET = 631065600;
+
+// Global message numbers from the FIT profile
+const MESG_RECORD = 20;
+const MESG_COURSE = 31;
+const MESG_COURSE_POINT = 32;
+
+const FIELD_TIMESTAMP = 253;
+
+// Course point types (FIT `course_point` enum), kept as the waypoint type and
+// used to pick its icon. Categorised climbs are marked at their top, so they
+// count as summits; turn cues stay generic waypoints.
+const COURSE_POINT_TYPES: Record<number, string> = {
+  0: 'generic',
+  1: 'summit',
+  2: 'valley',
+  3: 'water',
+  4: 'food',
+  5: 'danger',
+  6: 'left',
+  7: 'right',
+  8: 'straight',
+  9: 'first aid',
+  10: 'summit (cat 4 climb)',
+  11: 'summit (cat 3 climb)',
+  12: 'summit (cat 2 climb)',
+  13: 'summit (cat 1 climb)',
+  14: 'summit (hors categorie climb)',
+  15: 'sprint',
+  16: 'left fork',
+  17: 'right fork',
+  18: 'middle fork',
+  19: 'slight left',
+  20: 'sharp left',
+  21: 'slight right',
+  22: 'sharp right',
+  23: 'u-turn',
+  24: 'segment start',
+  25: 'segment end',
+  27: 'campsite',
+  28: 'aid station',
+  29: 'rest area',
+  30: 'general distance',
+  31: 'service',
+  32: 'energy gel',
+  33: 'sports drink',
+  34: 'mile marker',
+  35: 'checkpoint',
+  36: 'shelter',
+  37: 'meeting spot',
+  38: 'overlook',
+  39: 'toilet',
+  40: 'shower',
+  41: 'gear',
+  42: 'sharp curve',
+  43: 'steep incline',
+  44: 'tunnel',
+  45: 'bridge',
+  46: 'obstacle',
+  47: 'crossing',
+  48: 'store',
+  49: 'transition',
+  50: 'navaid',
+  51: 'transport',
+  52: 'alert',
+  53: 'info'
+};
+
+// Waypoint category of the course point types whose name does not give it
+// away, see `getWaypointCategory`. Supplies count as food or water, transport
+// goes with the ferries.
+const COURSE_POINT_CATEGORIES: Partial<Record<number, WaypointCategory>> = {
+  28: 'food',
+  32: 'food',
+  33: 'water',
+  51: 'ferry'
+};
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  devDataSize: number;
+}
+
+type FitMessage = Record<number, number | string | undefined>;
+
+function semicirclesToDegrees(value: number | string | undefined): number | undefined {
+  return typeof value === 'number' ? value * (180 / 2 ** 31) : undefined;
+}
+
+// Read a single value of the given base type, returning undefined for the
+// type's "invalid" marker
+function readValue(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean) {
+  switch (field.baseType & 0x1f) {
+    case 0: // enum
+    case 2: // uint8
+    case 10: // uint8z
+    case 13: { // byte
+      const value = view.getUint8(offset);
+      return value === 0xff || ((field.baseType & 0x1f) === 10 && value === 0) ? undefined : value;
+    }
+    case 1: {
+      const value = view.getInt8(offset);
+      return value === 0x7f ? undefined : value;
+    }
+    case 3: {
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 4:
+    case 11: {
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff || ((field.baseType & 0x1f) === 11 && value === 0) ? undefined : value;
+    }
+    case 5: {
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 6:
+    case 12: {
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff || ((field.baseType & 0x1f) === 12 && value === 0) ? undefined : value;
+    }
+    case 7: { // string, NUL terminated within the field size
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const end = bytes.indexOf(0);
+      return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end)) || undefined;
+    }
+    case 8: {
+      const value = view.getFloat32(offset, littleEndian);
+      return isFinite(value) ? value : undefined;
+    }
+    case 9: {
+      const value = view.getFloat64(offset, littleEndian);
+      return isFinite(value) ? value : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Reported share of the file between two progress callbacks
+const PROGRESS_STEP = 0.02;
+
+// Decode the data messages of a FIT file into plain field maps,
+// grouped by global message number
+function decodeFit(data: ArrayBuffer, onProgress?: (progress: number) => void): Map<number, FitMessage[]> {
+  const view = new DataView(data);
+  if (data.byteLength < 12) {
+    throw new Error('FIT file is too short');
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(...new Uint8Array(data, 8, 4));
+  if (signature !== '.FIT') {
+    throw new Error('Not a FIT file');
+  }
+
+  const definitions: Record<number, MessageDefinition> = {};
+  const messages = new Map<number, FitMessage[]>();
+  const end = Math.min(headerSize + dataSize, data.byteLength);
+  let offset = headerSize;
+  let lastTimestamp = 0;
+  let reported = 0;
+
+  while (offset < end) {
+    const progress = (offset - headerSize) / (end - headerSize);
+    if (onProgress && progress - reported >= PROGRESS_STEP) {
+      onProgress(progress);
+      reported = progress;
+    }
+
+    const header = view.getUint8(offset++);
+    let localNum: number;
+    let timeOffset: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: a data message with a 5 bit time offset
+      localNum = (header >> 5) & 0x03;
+      timeOffset = header & 0x1f;
+    } else if (header & 0x40) {
+      // Definition message
+      localNum = header & 0x0f;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2)
+        });
+        offset += 3;
+      }
+
+      let devDataSize = 0;
+      if (header & 0x20) {
+        const devFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < devFieldCount; i++) {
+          devDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions[localNum] = { globalNum, littleEndian, fields, devDataSize };
+      continue;
+    } else {
+      localNum = header & 0x0f;
+    }
+
+    const definition = definitions[localNum];
+    if (!definition) {
+      throw new Error(`FIT data message without definition at byte ${offset - 1}`);
+    }
+
+    const message: FitMessage = {};
+    definition.fields.forEach(field => {
+      message[field.num] = readValue(view, offset, field, definition.littleEndian);
+      offset += field.size;
+    });
+    offset += definition.devDataSize;
+
+    if (typeof message[FIELD_TIMESTAMP] === 'number') {
+      lastTimestamp = message[FIELD_TIMESTAMP] as number;
+    } else if (timeOffset !== null) {
+      lastTimestamp = (lastTimestamp & ~0x1f) + timeOffset + (timeOffset < (lastTimestamp & 0x1f) ? 0x20 : 0);
+      message[FIELD_TIMESTAMP] = lastTimestamp;
+    }
+
+    const list = messages.get(definition.globalNum) || [];
+    list.push(message);
+    messages.set(definition.globalNum, list);
+  }
+
+  return messages;
+}
+
+function fitTime(value: number | string | undefined): string | undefined {
+  return typeof value === 'number'
+    ? new Date((value + FIT_EPOCH_OFFSET) * 1000).toISOString()
+    : undefined;
+}
+
+function fitNumber(value: number | string | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+// Parse a FIT activity or course file into a single track. Course points
+// become waypoints.
+export function parseFit(data: ArrayBuffer, onProgress?: (progress: number) => void): ParsedTrack[] {
+  const messages = decodeFit(data, onProgress);
+
+  const points: GpxPoint[] = [];
+  (messages.get(MESG_RECORD) || []).forEach(record => {
+    const lat = semicirclesToDegrees(record[0]);
+    const lon = semicirclesToDegrees(record[1]);
+    if (lat === undefined || lon === undefined) return;
+
+    // enhanced_altitude (78) supersedes altitude (2), both scaled by 5 with a 500 m offset
+    const altitude = fitNumber(record[78]) ?? fitNumber(record[2]);
+    const point: GpxPoint = { lat, lon };
+    if (altitude !== undefined) point.ele = altitude / 5 - 500;
+    const time = fitTime(record[FIELD_TIMESTAMP]);
+    if (time) point.time = time;
+    const hr = fitNumber(record[3]);
+    if (hr !== undefined) point.hr = hr;
+    const cad = fitNumber(record[4]);
+    if (cad !== undefined) point.cad = cad;
+    const power = fitNumber(record[7]);
+    if (power !== undefined) point.power = power;
+    const atemp = fitNumber(record[13]);
+    if (atemp !== undefined) point.atemp = atemp;
+    points.push(point);
+  });
+
+  if (!points.length) return [];
+
+  const course = messages.get(MESG_COURSE)?.[0];
+  const track: ParsedTrack = {
+    name: typeof course?.[5] === 'string' ? course[5] : undefined,
+    points: addDistances(points)
+  };
+
+  const waypoints: Waypoint[] = [];
+  (messages.get(MESG_COURSE_POINT) || []).forEach(coursePoint => {
+    const lat = semicirclesToDegrees(coursePoint[2]);
+    const lon = semicirclesToDegrees(coursePoint[3]);
+    if (lat === undefined || lon === undefined) return;
+
+    const typeNum = fitNumber(coursePoint[5]);
+    const waypoint = {
+      lat,
+      lon,
+      name: typeof coursePoint[6] === 'string' ? coursePoint[6] : undefined,
+      type: typeNum !== undefined ? COURSE_POINT_TYPES[typeNum] ?? `course point ${typeNum}` : undefined
+    };
+    const category = (typeNum !== undefined && COURSE_POINT_CATEGORIES[typeNum]) || getWaypointCategory(waypoint);
+    waypoints.push({ ...waypoint, category });
+  });
+  attachWaypoints([track], waypoints);
+
+  return [track];
+}
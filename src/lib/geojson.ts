@@ -0,0 +1,105 @@
+import { ParsedTrack, ProcessedTrack } from '@/types';
+import { geoJsonToTracks, splitSegments, downloadFile } from '@/lib/utils';
+
+type GeoJsonInput = Parameters<typeof geoJsonToTracks>[0];
+
+// Parse a GeoJSON document holding a FeatureCollection, a single Feature or a
+// bare LineString / MultiLineString geometry. Weather points written by
+// `tracksToGeoJson` are skipped, other points become waypoints.
+export function parseGeoJson(text: string): ParsedTrack[] {
+  const json = JSON.parse(text);
+
+  let collection: GeoJsonInput;
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    collection = json;
+  } else if (json?.type === 'Feature') {
+    collection = { type: 'FeatureCollection', features: [json] };
+  } else if (json?.type === 'GeometryCollection' || (typeof json?.type === 'string' && 'coordinates' in json)) {
+    collection = {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: {}, geometry: json }]
+    };
+  } else {
+    throw new Error('Not a GeoJSON document');
+  }
+
+  return geoJsonToTracks({
+    ...collection,
+    features: collection.features.filter(feature => feature.properties?.role !== 'weather')
+  });
+}
+
+// Write tracks as a FeatureCollection: one line per track (elevation as the
+// third coordinate), its waypoints, and the sampled weather points with their
+// forecast as properties
+export function tracksToGeoJson(tracks: ProcessedTrack[]) {
+  const features = tracks.flatMap(track => {
+    const segments = splitSegments(track.points).map(segment =>
+      segment.map(p => (p.ele !== undefined ? [p.lon, p.lat, p.ele] : [p.lon, p.lat]))
+    );
+    const lastPoint = track.points[track.points.length - 1];
+
+    const line = {
+      type: 'Feature',
+      properties: {
+        role: 'track',
+        id: track.id,
+        name: track.name,
+        distance: lastPoint?.distance,
+        weatherFetchedAt: track.weatherFetchedAt
+      },
+      geometry: segments.length > 1
+        ? { type: 'MultiLineString', coordinates: segments }
+        : { type: 'LineString', coordinates: segments[0] || [] }
+    };
+
+    const waypoints = (track.waypoints || []).map(waypoint => ({
+      type: 'Feature',
+      properties: {
+        role: 'waypoint',
+        trackId: track.id,
+        name: waypoint.name,
+        desc: waypoint.description,
+        sym: waypoint.symbol,
+        type: waypoint.type,
+        category: waypoint.category,
+        distance: waypoint.distance
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: waypoint.ele !== undefined
+          ? [waypoint.lon, waypoint.lat, waypoint.ele]
+          : [waypoint.lon, waypoint.lat]
+      }
+    }));
+
+    const weatherPoints = (track.sampledPoints || []).flatMap((point, idx) => {
+      const weather = track.weatherData?.[idx];
+      if (!weather) return [];
+      return [{
+        type: 'Feature',
+        properties: {
+          role: 'weather',
+          trackId: track.id,
+          index: idx + 1,
+          distance: point.distance,
+          ele: point.ele,
+          ...weather
+        },
+        geometry: {
+          type: 'Point',
+          coordinates: [point.lon, point.lat]
+        }
+      }];
+    });
+
+    return [line, ...waypoints, ...weatherPoints];
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+export function exportGeoJson(tracks: ProcessedTrack[], title: string) {
+  const geoJson = tracksToGeoJson(tracks);
+  downloadFile(JSON.stringify(geoJson, null, 2), `${title}.geojson`, 'application/geo+json');
+}
@@ -0,0 +1,79 @@
+import { GpxPoint, ProcessedTrack, Waypoint } from '@/types';
+import { downloadFile, escapeXml, formatForecast, splitSegments } from '@/lib/utils';
+
+export interface GpxExportOptions {
+  /** Add the forecast at each sampled point as a waypoint */
+  includeForecast?: boolean;
+}
+
+function tag(name: string, value: string | number | undefined, indent: string): string {
+  return value === undefined || value === '' ? '' : `${indent}<${name}>${escapeXml(String(value))}</${name}>\n`;
+}
+
+function coordinates(point: { lat: number; lon: number }): string {
+  return `lat="${point.lat.toFixed(7)}" lon="${point.lon.toFixed(7)}"`;
+}
+
+function writeTrackPoint(point: GpxPoint): string {
+  const children = tag('ele', point.ele?.toFixed(1), '        ') + tag('time', point.time, '        ');
+  return children
+    ? `      <trkpt ${coordinates(point)}>\n${children}      </trkpt>\n`
+    : `      <trkpt ${coordinates(point)}/>\n`;
+}
+
+function writeWaypoint(waypoint: Waypoint): string {
+  return `  <wpt ${coordinates(waypoint)}>\n` +
+    tag('ele', waypoint.ele?.toFixed(1), '    ') +
+    tag('name', waypoint.name, '    ') +
+    tag('desc', waypoint.description, '    ') +
+    tag('sym', waypoint.symbol, '    ') +
+    tag('type', waypoint.type, '    ') +
+    '  </wpt>\n';
+}
+
+// Forecast notes become waypoints named after their distance along the track
+function forecastWaypoints(track: ProcessedTrack): Waypoint[] {
+  return (track.sampledPoints || []).flatMap((point, idx) => {
+    const weather = track.weatherData?.[idx];
+    if (!weather) return [];
+    const distance = point.distance !== undefined ? ` km ${point.distance.toFixed(1)}` : ` ${idx + 1}`;
+    return [{
+      lat: point.lat,
+      lon: point.lon,
+      ele: point.ele,
+      name: `Forecast${distance}`,
+      description: formatForecast(weather),
+      type: 'weather',
+      category: 'other' as const
+    }];
+  });
+}
+
+// Write tracks as a GPX 1.1 document: waypoints first (as the schema requires),
+// then one <trk> per track with a <trkseg> per recorded segment
+export function tracksToGpx(tracks: ProcessedTrack[], options: GpxExportOptions = {}): string {
+  const waypoints = tracks.flatMap(track => [
+    ...(track.waypoints || []),
+    ...(options.includeForecast ? forecastWaypoints(track) : [])
+  ]);
+
+  const trks = tracks.map(track => {
+    const segments = splitSegments(track.points).map(segment =>
+      `    <trkseg>\n${segment.map(writeTrackPoint).join('')}    </trkseg>\n`
+    );
+    return `  <trk>\n${tag('name', track.name, '    ')}${segments.join('')}  </trk>\n`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<gpx version="1.1" creator="TrailCast" xmlns="http://www.topografix.com/GPX/1/1" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    'xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">\n' +
+    `  <metadata>\n    <time>${new Date().toISOString()}</time>\n  </metadata>\n` +
+    waypoints.map(writeWaypoint).join('') +
+    trks.join('') +
+    '</gpx>\n';
+}
+
+export function exportGpx(tracks: ProcessedTrack[], title: string, options: GpxExportOptions = {}) {
+  downloadFile(tracksToGpx(tracks, options), `${title}.gpx`, 'application/gpx+xml');
+}
@@ -0,0 +1,77 @@
+import { GpxPoint } from '@/types';
+
+// Distance (km) the grade of a point is measured over, centred on the point.
+// Long enough to smooth out elevation noise, short enough to catch ramps.
+export const GRADIENT_WINDOW = 0.1;
+
+export interface GradientBand {
+  label: string;
+  /** Lower bound in percent, the first band also holds descents */
+  min: number;
+  color: string;
+}
+
+export const GRADIENT_BANDS: GradientBand[] = [
+  { label: '< 3%', min: -Infinity, color: '#22c55e' },
+  { label: '3-6%', min: 3, color: '#eab308' },
+  { label: '6-9%', min: 6, color: '#f97316' },
+  { label: '9-12%', min: 9, color: '#ef4444' },
+  { label: '> 12%', min: 12, color: '#7f1d1d' }
+];
+
+export function getGradientBand(grade: number): number {
+  let band = 0;
+  GRADIENT_BANDS.forEach((b, idx) => {
+    if (grade >= b.min) band = idx;
+  });
+  return band;
+}
+
+// Grade in percent at every point, over a window of `window` km around it
+// within the same segment. Null where there is no elevation or no distance
+// to measure over.
+export function getPointGrades(points: GpxPoint[], window = GRADIENT_WINDOW): Array<number | null> {
+  const grades: Array<number | null> = points.map(() => null);
+
+  // Indexes of the points with elevation, per segment
+  const segments: number[][] = [];
+  points.forEach((point, idx) => {
+    if (idx === 0 || (points[idx - 1].segment ?? 0) !== (point.segment ?? 0)) segments.push([]);
+    if (point.ele !== undefined) segments[segments.length - 1].push(idx);
+  });
+
+  const distance = (idx: number) => points[idx].distance ?? 0;
+  segments.forEach(indexes => {
+    let from = 0;
+    let to = 0;
+    indexes.forEach((pointIdx, position) => {
+      const center = distance(pointIdx);
+      while (distance(indexes[from]) < center - window / 2) from++;
+      to = Math.max(to, position);
+      while (to + 1 < indexes.length && distance(indexes[to + 1]) <= center + window / 2) to++;
+
+      // Sparse points: fall back to the direct neighbours
+      const start = indexes[from === position ? Math.max(position - 1, 0) : from];
+      const end = indexes[to === position ? Math.min(position + 1, indexes.length - 1) : to];
+      const run = (distance(end) - distance(start)) * 1000;
+      if (run > 0) {
+        grades[pointIdx] = ((points[end].ele! - points[start].ele!) / run) * 100;
+      }
+    });
+  });
+
+  return grades;
+}
+
+// Distance in km spent in each gradient band, see `GRADIENT_BANDS`
+export function getGradientDistances(points: GpxPoint[], grades = getPointGrades(points)): number[] {
+  const distances = GRADIENT_BANDS.map(() => 0);
+  for (let i = 1; i < points.length; i++) {
+    if ((points[i].segment ?? 0) !== (points[i - 1].segment ?? 0)) continue;
+    const previous = grades[i - 1];
+    const current = grades[i];
+    if (previous === null || current === null) continue;
+    distances[getGradientBand((previous + current) / 2)] += (points[i].distance ?? 0) - (points[i - 1].distance ?? 0);
+  }
+  return distances;
+}
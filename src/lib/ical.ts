@@ -0,0 +1,113 @@
+import { ProcessedTrack, RideSchedule } from '@/types';
+import { downloadFile, formatDuration, formatForecast, getTrackStats } from '@/lib/utils';
+import { estimateDuration, getRideStart } from '@/lib/activity';
+
+// Escape TEXT values (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with a CRLF followed by a space,
+// without splitting multi-byte characters
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (length + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// Floating local time, the ride starts at the same clock time wherever the
+// calendar is opened
+function formatLocalDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Plain text description of the ride: totals, then the forecast at every
+// weather point along the route
+function describeTrack(track: ProcessedTrack, duration: number): string {
+  const stats = track.stats ?? getTrackStats(track.points);
+  const lines = [`Distance: ${stats.distance.toFixed(1)} km`];
+  if (stats.ascent !== undefined && stats.descent !== undefined) {
+    lines.push(`Ascent: ${stats.ascent.toFixed(0)} m`, `Descent: ${stats.descent.toFixed(0)} m`);
+  }
+  lines.push(`Estimated duration: ${formatDuration(duration)}`);
+
+  const forecast = (track.sampledPoints || []).flatMap((point, idx) => {
+    const weather = track.weatherData?.[idx];
+    return weather ? [`#${idx + 1} at ${(point.distance ?? 0).toFixed(1)} km - ${formatForecast(weather)}`] : [];
+  });
+  if (forecast.length) {
+    lines.push('', 'Forecast:', ...forecast);
+  }
+  return lines.join('\n');
+}
+
+// One event per track, on the day its forecast was fetched for
+export function tracksToIcs(tracks: ProcessedTrack[], title: string, schedule: RideSchedule): string {
+  const now = new Date();
+
+  const events = tracks.flatMap((track, idx) => {
+    const date = track.weatherData?.[0]?.time || schedule.forecastDate;
+    const start = getRideStart(track, schedule);
+    const duration = estimateDuration(track);
+    // Round the end to whole minutes, calendars show nothing finer
+    const end = new Date(start.getTime() + Math.max(Math.round(duration / 60), 1) * 60000);
+    const startPoint = track.points[0];
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${track.id}-${date}@trailcast`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `DTSTART:${formatLocalDateTime(start)}`,
+      `DTEND:${formatLocalDateTime(end)}`,
+      `SUMMARY:${escapeText(track.name || `Track ${idx + 1}`)}`,
+      ...(startPoint
+        ? [
+            `LOCATION:${escapeText(`${startPoint.lat.toFixed(5)}, ${startPoint.lon.toFixed(5)}`)}`,
+            `GEO:${startPoint.lat.toFixed(6)};${startPoint.lon.toFixed(6)}`
+          ]
+        : []),
+      `DESCRIPTION:${escapeText(describeTrack(track, duration))}`,
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TrailCast//Trip itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(title)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function exportIcs(tracks: ProcessedTrack[], title: string, schedule: RideSchedule) {
+  downloadFile(tracksToIcs(tracks, title, schedule), `${title}.ics`, 'text/calendar;charset=utf-8');
+}
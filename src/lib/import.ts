@@ -0,0 +1,254 @@
+import { unzip, Unzipped, UnzipOptions } from 'fflate';
+import { ImportSource, ImportStage, ParsedTrack, PreparedTrack } from '@/types';
+import { parseGpx, getWeatherPoints, getTrackStats } from '@/lib/utils';
+import { parseKml, parseKmz } from '@/lib/kml';
+import { parseTcx } from '@/lib/tcx';
+import { parseFit } from '@/lib/fit';
+import { parseGeoJson } from '@/lib/geojson';
+
+export const TRACK_FILE_EXTENSIONS = ['gpx', 'kml', 'kmz', 'tcx', 'fit', 'geojson', 'json'];
+
+// Archives are unpacked before import, see `extractArchive`
+export const ARCHIVE_FILE_EXTENSIONS = ['zip'];
+
+// File extensions accepted by the upload inputs
+export const TRACK_FILE_ACCEPT = [...TRACK_FILE_EXTENSIONS, ...ARCHIVE_FILE_EXTENSIONS]
+  .map(ext => `.${ext}`)
+  .join(',');
+
+export function getFileExtension(name: string): string {
+  const match = name.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+export function isArchiveFile(name: string): boolean {
+  return ARCHIVE_FILE_EXTENSIONS.includes(getFileExtension(name));
+}
+
+// Strip the path and the extension of a supported track or archive file
+export function getTrackFileName(name: string): string {
+  const fileName = name.split(/[?#]/)[0].split('/').pop() || name;
+  const extension = getFileExtension(fileName);
+  return TRACK_FILE_EXTENSIONS.includes(extension) || ARCHIVE_FILE_EXTENSIONS.includes(extension)
+    ? fileName.slice(0, -(extension.length + 1))
+    : fileName;
+}
+
+async function fetchSource(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${url} (HTTP ${response.status})`);
+  }
+  return response;
+}
+
+// Read a file or download a URL chunk by chunk, reporting the share of the
+// bytes read when the size is known
+async function readArrayBuffer(
+  file: File | string,
+  onProgress?: (progress: number) => void
+): Promise<ArrayBuffer> {
+  let stream: ReadableStream<Uint8Array>;
+  let size: number;
+  if (typeof file === 'string') {
+    const response = await fetchSource(file);
+    if (!response.body) return response.arrayBuffer();
+    stream = response.body;
+    size = Number(response.headers.get('Content-Length')) || 0;
+  } else {
+    stream = file.stream();
+    size = file.size;
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    if (size) onProgress?.(Math.min(loaded / size, 1));
+  }
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return data.buffer;
+}
+
+async function readText(file: File | string, onProgress?: (progress: number) => void): Promise<string> {
+  return new TextDecoder().decode(await readArrayBuffer(file, onProgress));
+}
+
+// Guess the format of a text document (pasted text, URL without extension)
+// from its content
+export function detectTextFormat(text: string): 'gpx' | 'kml' | 'tcx' | 'geojson' | null {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(trimmed)) return 'gpx';
+  if (/<kml[\s>]/.test(trimmed)) return 'kml';
+  if (/<TrainingCenterDatabase[\s>]/.test(trimmed)) return 'tcx';
+  return null;
+}
+
+function parseTrackText(text: string, onProgress?: (progress: number) => void): ParsedTrack[] {
+  switch (detectTextFormat(text)) {
+    case 'kml':
+      return parseKml(text, onProgress);
+    case 'tcx':
+      return parseTcx(text, onProgress);
+    case 'geojson':
+      return parseGeoJson(text);
+    default:
+      return parseGpx(text, onProgress);
+  }
+}
+
+// Parse any supported track file (or URL) based on its extension,
+// sniffing the content for unknown names. Progress is reported per stage as
+// the share of the bytes read, then of the parsing done.
+export async function processTrackFile(
+  file: File | string,
+  onProgress: (stage: 'reading' | 'parsing', progress: number) => void = () => {}
+): Promise<ParsedTrack[]> {
+  const name = typeof file === 'string' ? file : file.name;
+  const reading = (progress: number) => onProgress('reading', progress);
+  const parsing = (progress: number) => onProgress('parsing', progress);
+
+  switch (getFileExtension(name)) {
+    case 'gpx':
+      return parseGpx(await readText(file, reading), parsing);
+    case 'kmz':
+      return parseKmz(await readArrayBuffer(file, reading), parsing);
+    case 'kml':
+      return parseKml(await readText(file, reading), parsing);
+    case 'tcx':
+      return parseTcx(await readText(file, reading), parsing);
+    case 'fit':
+      return parseFit(await readArrayBuffer(file, reading), parsing);
+    case 'geojson':
+    case 'json':
+      return parseGeoJson(await readText(file, reading));
+    default:
+      return parseTrackText(await readText(file, reading), parsing);
+  }
+}
+
+// fflate's async unzip inflates in its own workers, keeping big archives off
+// the main thread like the track worker does for track files
+function unzipAsync(data: Uint8Array, options: UnzipOptions): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, options, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+}
+
+// Unpack the track files of a ZIP archive (file or URL) so each one goes
+// through the normal import. Files inside a folder are grouped under the
+// folder path, files at the root under the archive name.
+export async function extractArchive(archive: File | string, name: string): Promise<ImportSource[]> {
+  const files = await unzipAsync(new Uint8Array(await readArrayBuffer(archive)), {
+    filter: file => {
+      // Skip macOS resource forks and other hidden files
+      const hidden = file.name.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+      return !hidden && TRACK_FILE_EXTENSIONS.includes(getFileExtension(file.name));
+    }
+  });
+
+  const paths = Object.keys(files).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (!paths.length) {
+    throw new Error('ZIP archive does not contain any track files');
+  }
+
+  return paths.map(path => {
+    const separator = path.lastIndexOf('/');
+    const fileName = path.slice(separator + 1);
+    return {
+      source: new File([files[path]], fileName),
+      name: fileName,
+      group: separator > 0 ? path.slice(0, separator) : getTrackFileName(name)
+    };
+  });
+}
+
+function isValidCoordinate(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) &&
+    lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
+}
+
+// Check the tracks read from one file. Tracks that cannot be used are
+// dropped with a warning; a file without any usable track is an error.
+export function validateTracks(tracks: ParsedTrack[]): { tracks: ParsedTrack[]; warnings: string[] } {
+  if (!tracks.length) {
+    throw new Error('No track or route found');
+  }
+
+  const warnings: string[] = [];
+  const validTracks = tracks.filter((track, index) => {
+    const label = track.name || `Track ${index + 1}`;
+    const invalidCount = track.points.filter(p => !isValidCoordinate(p.lat, p.lon)).length;
+    if (invalidCount > 0) {
+      warnings.push(`${label}: ${invalidCount} point${invalidCount !== 1 ? 's' : ''} with out-of-range coordinates`);
+      return false;
+    }
+    if (track.points.length < 2) {
+      warnings.push(`${label}: only ${track.points.length} point${track.points.length !== 1 ? 's' : ''}, at least 2 are needed`);
+      return false;
+    }
+    return true;
+  });
+
+  if (!validTracks.length) {
+    throw new Error(warnings.join('; '));
+  }
+  return { tracks: validTracks, warnings };
+}
+
+// Share of the overall progress taken by each stage, from timing large GPX
+// files: parsing the XML takes most of the time, statistics most of the rest
+const STAGE_WEIGHTS: Record<ImportStage, number> = {
+  reading: 0.1,
+  parsing: 0.75,
+  validating: 0.02,
+  sampling: 0.03,
+  statistics: 0.1
+};
+
+// Overall progress for the given share of a stage
+function overallProgress(stage: ImportStage, progress: number): number {
+  const stages = Object.keys(STAGE_WEIGHTS) as ImportStage[];
+  const done = stages.slice(0, stages.indexOf(stage)).reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0);
+  return done + STAGE_WEIGHTS[stage] * progress;
+}
+
+// Everything that happens to an imported file before weather is fetched:
+// reading, parsing, validation, weather point sampling and statistics. Runs
+// inside the track worker, see `prepareTracksInWorker`.
+export async function prepareTracks(
+  source: File | string,
+  onProgress: (stage: ImportStage, progress: number) => void = () => {},
+  elevationThreshold?: number
+): Promise<{ tracks: PreparedTrack[]; warnings: string[] }> {
+  const report = (stage: ImportStage, progress: number) => onProgress(stage, overallProgress(stage, progress));
+
+  report('reading', 0);
+  const parsedTracks = await processTrackFile(source, report);
+
+  report('validating', 0);
+  const { tracks, warnings } = validateTracks(parsedTracks);
+
+  const sampledPoints = tracks.map((track, index) => {
+    report('sampling', index / tracks.length);
+    return getWeatherPoints(track.points);
+  });
+  const preparedTracks = tracks.map((track, index) => {
+    report('statistics', index / tracks.length);
+    const stats = getTrackStats(track.points, elevationThreshold);
+    return { ...track, sampledPoints: sampledPoints[index], stats };
+  });
+
+  return { tracks: preparedTracks, warnings };
+}
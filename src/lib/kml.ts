@@ -0,0 +1,127 @@
+import * as toGeoJSON from '@tmcw/togeojson';
+import { unzipSync, strFromU8 } from 'fflate';
+import { GpxPoint, ParsedTrack, ProcessedTrack, WeatherData } from '@/types';
+import {
+  geoJsonToTracks,
+  parseXml,
+  escapeXml,
+  downloadFile,
+  splitSegments,
+  windArrow,
+  TRACK_COLORS,
+  WAYPOINT_LABELS
+} from '@/lib/utils';
+
+// Weather placemarks written by `tracksToKml` are skipped, other points
+// become waypoints
+export function parseKml(text: string, onProgress?: (progress: number) => void): ParsedTrack[] {
+  const kmlDoc = parseXml(text);
+  onProgress?.(0.5);
+  const geoJson = toGeoJSON.kml(kmlDoc, { skipNullGeometry: true });
+
+  return geoJsonToTracks({
+    ...geoJson,
+    features: geoJson.features.filter(feature => feature.properties?.role !== 'weather')
+  });
+}
+
+// A KMZ is a zip holding a main KML document (usually doc.kml) and its assets
+export function parseKmz(data: ArrayBuffer, onProgress?: (progress: number) => void): ParsedTrack[] {
+  const files = unzipSync(new Uint8Array(data), {
+    filter: file => file.name.toLowerCase().endsWith('.kml')
+  });
+  const names = Object.keys(files);
+  if (!names.length) {
+    throw new Error('KMZ archive does not contain a KML document');
+  }
+
+  const mainName = names.find(name => name.toLowerCase() === 'doc.kml') || names[0];
+  return parseKml(strFromU8(files[mainName]), onProgress);
+}
+
+// KML colours are written as aabbggrr
+function kmlColor(hex: string, alpha = 'ff'): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+function kmlCoordinates(point: { lat: number; lon: number; ele?: number }): string {
+  return `${point.lon},${point.lat}${point.ele !== undefined ? `,${point.ele.toFixed(1)}` : ''}`;
+}
+
+// Forecast balloon of a weather placemark
+function weatherBalloon(point: GpxPoint, weather: WeatherData): string {
+  const rows = [
+    ['Date', weather.time],
+    ['Distance', point.distance !== undefined ? `${point.distance.toFixed(1)} km` : 'N/A'],
+    ['Elevation', point.ele !== undefined ? `${point.ele.toFixed(0)} m` : 'N/A'],
+    ['Temperature', `${weather.apparent_temperature_min.toFixed(1)} to ${weather.apparent_temperature_max.toFixed(1)} °C`],
+    ['Wind', `${weather.wind_speed_10m_max.toFixed(0)} km/h ${windArrow(weather.wind_direction_10m_dominant)} (${weather.wind_direction_10m_dominant}°)`],
+    ['Rain', `${weather.rain_sum.toFixed(1)} mm`]
+  ];
+  return `<table>${rows.map(([label, value]) => `<tr><th align="left">${escapeXml(label)}</th><td>${escapeXml(value)}</td></tr>`).join('')}</table>`;
+}
+
+// Write tracks as a KML document with a folder per track: the line in its map
+// colour, its waypoints and a placemark per weather point. Like the arrows on
+// the map, weather icons are rotated by the wind direction; the label shows the
+// temperature and the balloon the full forecast. `colors` follow the track order.
+export function tracksToKml(tracks: ProcessedTrack[], title: string, colors: string[] = []): string {
+  const folders = tracks.map((track, trackIdx) => {
+    const color = kmlColor(colors[trackIdx] || TRACK_COLORS[trackIdx % TRACK_COLORS.length]);
+    const lines = splitSegments(track.points).map(segment =>
+      `<LineString><tessellate>1</tessellate><coordinates>${segment.map(kmlCoordinates).join(' ')}</coordinates></LineString>`
+    );
+
+    const waypoints = (track.waypoints || []).map(waypoint =>
+      '      <Placemark>\n' +
+      `        <name>${escapeXml(waypoint.name || WAYPOINT_LABELS[waypoint.category])}</name>\n` +
+      (waypoint.description ? `        <description>${escapeXml(waypoint.description)}</description>\n` : '') +
+      `        <ExtendedData><Data name="category"><value>${waypoint.category}</value></Data></ExtendedData>\n` +
+      `        <Point><coordinates>${kmlCoordinates(waypoint)}</coordinates></Point>\n` +
+      '      </Placemark>\n'
+    );
+
+    const weatherPoints = (track.sampledPoints || []).flatMap((point, idx) => {
+      const weather = track.weatherData?.[idx];
+      if (!weather) return [];
+      const label = `${weather.apparent_temperature_min.toFixed(0)}-${weather.apparent_temperature_max.toFixed(0)}°C`;
+      return [
+        '      <Placemark>\n' +
+        `        <name>${escapeXml(label)}</name>\n` +
+        `        <description><![CDATA[${weatherBalloon(point, weather)}]]></description>\n` +
+        '        <Style>\n' +
+        `          <IconStyle><color>${color}</color><heading>${weather.wind_direction_10m_dominant}</heading>` +
+        '<Icon><href>https://earth.google.com/images/kml-icons/track-directional/track-0.png</href></Icon></IconStyle>\n' +
+        '          <LabelStyle><scale>0.8</scale></LabelStyle>\n' +
+        '        </Style>\n' +
+        '        <ExtendedData><Data name="role"><value>weather</value></Data></ExtendedData>\n' +
+        `        <Point><coordinates>${kmlCoordinates(point)}</coordinates></Point>\n` +
+        '      </Placemark>\n'
+      ];
+    });
+
+    return '    <Folder>\n' +
+      `      <name>${escapeXml(track.name || `Track ${trackIdx + 1}`)}</name>\n` +
+      '      <Placemark>\n' +
+      `        <name>${escapeXml(track.name || `Track ${trackIdx + 1}`)}</name>\n` +
+      `        <Style><LineStyle><color>${color}</color><width>4</width></LineStyle></Style>\n` +
+      `        ${lines.length === 1 ? lines[0] : `<MultiGeometry>${lines.join('')}</MultiGeometry>`}\n` +
+      '      </Placemark>\n' +
+      waypoints.join('') +
+      weatherPoints.join('') +
+      '    </Folder>\n';
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2">\n' +
+    '  <Document>\n' +
+    `    <name>${escapeXml(title)}</name>\n` +
+    folders.join('') +
+    '  </Document>\n' +
+    '</kml>\n';
+}
+
+export function exportKml(tracks: ProcessedTrack[], title: string, colors: string[] = []) {
+  downloadFile(tracksToKml(tracks, title, colors), `${title}.kml`, 'application/vnd.google-earth.kml+xml');
+}
@@ -0,0 +1,114 @@
+import maplibregl from 'maplibre-gl';
+import { ProcessedTrack } from '@/types';
+import { MAP_STYLE_URL, calculateBounds, splitSegments } from '@/lib/utils';
+
+// Give up waiting for slow tiles and capture whatever has loaded
+const SNAPSHOT_TIMEOUT = 15000;
+
+interface SnapshotOptions {
+  width: number;
+  height: number;
+  color: string;
+}
+
+// Render a track and its numbered weather points on an off-screen map and
+// return it as a JPEG data URL, or null when the map cannot be rendered
+// (no WebGL, style failed to load...)
+export async function renderTrackSnapshot(
+  track: ProcessedTrack,
+  { width, height, color }: SnapshotOptions
+): Promise<string | null> {
+  if (!track.points.length) return null;
+
+  const container = document.createElement('div');
+  container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${width}px; height: ${height}px;`;
+  document.body.appendChild(container);
+
+  let map: maplibregl.Map | null = null;
+  try {
+    const bounds = calculateBounds(track.points);
+    map = new maplibregl.Map({
+      container,
+      style: MAP_STYLE_URL,
+      bounds: [[bounds[0], bounds[1]], [bounds[2], bounds[3]]],
+      fitBoundsOptions: { padding: 30 },
+      interactive: false,
+      attributionControl: false,
+      fadeDuration: 0,
+      pixelRatio: 2,
+      preserveDrawingBuffer: true
+    });
+    const snapshotMap = map;
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Map style did not load')), SNAPSHOT_TIMEOUT);
+      snapshotMap.once('load', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+
+    snapshotMap.addSource('snapshot-track', {
+      type: 'geojson',
+      data: {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'MultiLineString',
+          coordinates: splitSegments(track.points).map(segment => segment.map(p => [p.lon, p.lat]))
+        }
+      }
+    });
+    snapshotMap.addLayer({
+      id: 'snapshot-track',
+      type: 'line',
+      source: 'snapshot-track',
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: { 'line-color': color, 'line-width': 4 }
+    });
+
+    await new Promise<void>(resolve => {
+      const timeout = setTimeout(resolve, SNAPSHOT_TIMEOUT);
+      snapshotMap.once('idle', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+
+    // Weather markers are drawn on a 2D canvas so their numbers do not depend
+    // on the glyphs of the map style
+    const source = snapshotMap.getCanvas();
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const scale = source.width / width;
+    context.drawImage(source, 0, 0);
+    context.scale(scale, scale);
+    context.font = 'bold 11px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    (track.sampledPoints || []).forEach((point, idx) => {
+      const { x, y } = snapshotMap.project([point.lon, point.lat]);
+      context.beginPath();
+      context.arc(x, y, 9, 0, Math.PI * 2);
+      context.fillStyle = '#1f2937';
+      context.fill();
+      context.lineWidth = 2;
+      context.strokeStyle = '#ffffff';
+      context.stroke();
+      context.fillStyle = '#ffffff';
+      context.fillText(String(idx + 1), x, y + 0.5);
+    });
+
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } catch (error) {
+    console.error('Error rendering map snapshot:', error);
+    return null;
+  } finally {
+    map?.remove();
+    container.remove();
+  }
+}
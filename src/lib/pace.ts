@@ -0,0 +1,87 @@
+import { GpxPoint, PaceEstimate, PaceModel, PaceSettings } from '@/types';
+import { findPointIndexAtDistance } from '@/lib/utils';
+import { getPointGrades } from '@/lib/gradient';
+
+export const PACE_MODELS: Record<PaceModel, { label: string; description: string; defaults: PaceSettings }> = {
+  naismith: {
+    label: 'Hiking (Naismith)',
+    description: 'Walking time on the flat plus one hour per climbing rate of ascent',
+    defaults: { model: 'naismith', flatSpeed: 5, climbRate: 600, breakMinutes: 10 }
+  },
+  tobler: {
+    label: 'Hiking (Tobler)',
+    description: 'Speed follows the slope, fastest on a gentle descent',
+    defaults: { model: 'tobler', flatSpeed: 5, climbRate: 600, breakMinutes: 10 }
+  },
+  cycling: {
+    label: 'Cycling',
+    description: 'Flat speed, slowed to the climbing rate uphill and faster downhill',
+    defaults: { model: 'cycling', flatSpeed: 25, climbRate: 800, breakMinutes: 5 }
+  }
+};
+
+export const DEFAULT_PACE_SETTINGS = PACE_MODELS.cycling.defaults;
+
+// Downhill cycling speed gain per unit of grade, capped at 60% above the flat speed
+const CYCLING_DESCENT_FACTOR = 5;
+const CYCLING_MAX_DESCENT_RATIO = 1.6;
+
+// Hours needed to cover `distance` km at `grade` (fraction, 0.1 = 10%)
+function movingHours(distance: number, grade: number, settings: PaceSettings): number {
+  switch (settings.model) {
+    case 'naismith':
+      return distance / settings.flatSpeed + Math.max(grade, 0) * distance * 1000 / settings.climbRate;
+    case 'tobler': {
+      // Tobler's hiking function, scaled so the flat gives the flat speed
+      const speed = settings.flatSpeed * Math.exp(-3.5 * Math.abs(grade + 0.05)) / Math.exp(-3.5 * 0.05);
+      return distance / speed;
+    }
+    case 'cycling': {
+      const speed = grade > 0
+        ? Math.min(settings.flatSpeed, settings.climbRate / (grade * 1000))
+        : settings.flatSpeed * Math.min(1 - grade * CYCLING_DESCENT_FACTOR, CYCLING_MAX_DESCENT_RATIO);
+      return distance / speed;
+    }
+  }
+}
+
+// Seconds from the start to every point, breaks included. No time passes
+// across the gap between segments.
+export function getPointEtas(points: GpxPoint[], settings: PaceSettings): number[] {
+  const grades = getPointGrades(points);
+  const breakFactor = 1 + settings.breakMinutes / 60;
+  let moving = 0;
+  return points.map((point, idx) => {
+    const previous = points[idx - 1];
+    if (previous && (previous.segment ?? 0) === (point.segment ?? 0)) {
+      const distance = (point.distance ?? 0) - (previous.distance ?? 0);
+      const grade = ((grades[idx - 1] ?? 0) + (grades[idx] ?? 0)) / 200;
+      moving += movingHours(distance, grade, settings) * 3600;
+    }
+    return moving * breakFactor;
+  });
+}
+
+export function estimatePace(
+  track: { points: GpxPoint[]; sampledPoints?: GpxPoint[] },
+  settings: PaceSettings
+): PaceEstimate {
+  const etas = getPointEtas(track.points, settings);
+  const duration = etas[etas.length - 1] ?? 0;
+  return {
+    settings: { ...settings },
+    movingTime: duration / (1 + settings.breakMinutes / 60),
+    duration,
+    sampledPointTimes: (track.sampledPoints || []).map(point =>
+      etas[findPointIndexAtDistance(track.points, point.distance ?? 0)] ?? 0
+    )
+  };
+}
+
+export function isEstimateCurrent(estimate: PaceEstimate | undefined, settings: PaceSettings): boolean {
+  return !!estimate &&
+    estimate.settings.model === settings.model &&
+    estimate.settings.flatSpeed === settings.flatSpeed &&
+    estimate.settings.climbRate === settings.climbRate &&
+    estimate.settings.breakMinutes === settings.breakMinutes;
+}
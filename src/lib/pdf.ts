@@ -0,0 +1,292 @@
+import { jsPDF } from 'jspdf';
+import { ProcessedTrack, Waypoint } from '@/types';
+import { WAYPOINT_LABELS, TRACK_COLORS, findPointIndexAtDistance, formatDuration, getTrackStats, splitSegments } from '@/lib/utils';
+import { getPointEtas } from '@/lib/pace';
+import { renderTrackSnapshot } from '@/lib/map-snapshot';
+
+// A4 portrait in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 60;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 50;
+
+const MAP_HEIGHT = 290;
+const PROFILE_HEIGHT = 140;
+const ROW_HEIGHT = 18;
+
+// Column offsets of the weather table
+const TABLE_COLUMNS = { index: 0, distance: 25, eta: 80, elevation: 130, temp: 185, wind: 300, rain: 420 };
+
+// Overview figures of a track for the summary page and section headers
+function getPdfTrackSummary(track: ProcessedTrack) {
+  const stats = track.stats ?? getTrackStats(track.points);
+  const weather = track.weatherData || [];
+  return {
+    distance: `${stats.distance.toFixed(1)} km`,
+    ascent: stats.ascent !== undefined ? `${stats.ascent.toFixed(0)} m` : 'N/A',
+    descent: stats.descent !== undefined ? `${stats.descent.toFixed(0)} m` : 'N/A',
+    duration: track.estimate ? formatDuration(track.estimate.duration) : 'N/A',
+    forecastDate: weather[0]?.time ?? 'N/A',
+    temp: weather.length
+      ? `${Math.min(...weather.map(w => w.apparent_temperature_min)).toFixed(1)}-${Math.max(...weather.map(w => w.apparent_temperature_max)).toFixed(1)}°C`
+      : 'N/A',
+    wind: weather.length ? `${Math.max(...weather.map(w => w.wind_speed_10m_max)).toFixed(0)} km/h` : 'N/A',
+    rain: weather.length ? `${Math.max(...weather.map(w => w.rain_sum)).toFixed(1)} mm` : 'N/A'
+  };
+}
+
+// Arrow pointing like `windArrow`: 0° up, clockwise
+function drawWindArrow(doc: jsPDF, x: number, y: number, degrees: number) {
+  const angle = (degrees * Math.PI) / 180;
+  const dx = Math.sin(angle);
+  const dy = -Math.cos(angle);
+  const tipX = x + dx * 5;
+  const tipY = y + dy * 5;
+  doc.setLineWidth(1);
+  doc.line(x - dx * 5, y - dy * 5, tipX, tipY);
+  doc.triangle(
+    tipX, tipY,
+    tipX - dx * 3.5 - dy * 2.5, tipY - dy * 3.5 + dx * 2.5,
+    tipX - dx * 3.5 + dy * 2.5, tipY - dy * 3.5 - dx * 2.5,
+    'F'
+  );
+}
+
+function drawNumberMarker(doc: jsPDF, x: number, y: number, label: string) {
+  doc.setFillColor('#1f2937');
+  doc.setDrawColor('#ffffff');
+  doc.setLineWidth(1);
+  doc.circle(x, y, 6, 'FD');
+  doc.setFontSize(7);
+  doc.setTextColor('#ffffff');
+  doc.text(label, x, y + 2.3, { align: 'center' });
+  doc.setTextColor('#000000');
+}
+
+// Elevation profile as vector graphics, with the weather points numbered like
+// on the map snapshot and in the table
+function drawProfile(doc: jsPDF, track: ProcessedTrack, x: number, y: number, width: number, height: number) {
+  const stats = track.stats ?? getTrackStats(track.points);
+  if (stats.minElevation === undefined || stats.maxElevation === undefined || stats.distance <= 0) return;
+
+  const labelWidth = 35;
+  const chartX = x + labelWidth;
+  const chartWidth = width - labelWidth;
+  const chartHeight = height - 14;
+  const range = Math.max(stats.maxElevation - stats.minElevation, 50);
+  const minElevation = stats.minElevation - range * 0.05;
+  const maxElevation = stats.minElevation + range * 1.1;
+  const toX = (distance: number) => chartX + (distance / stats.distance) * chartWidth;
+  const toY = (elevation: number) => y + chartHeight - ((elevation - minElevation) / (maxElevation - minElevation)) * chartHeight;
+
+  doc.setDrawColor('#d1d5db');
+  doc.setLineWidth(0.5);
+  doc.rect(chartX, y, chartWidth, chartHeight, 'S');
+
+  // Keep a few hundred points per segment, that is finer than the print resolution
+  const stride = Math.max(1, Math.ceil(track.points.length / 600));
+  splitSegments(track.points).forEach(segment => {
+    const points = segment
+      .filter((point, idx) => point.ele !== undefined && (idx % stride === 0 || idx === segment.length - 1))
+      .map(point => [toX(point.distance ?? 0), toY(point.ele!)]);
+    if (points.length < 2) return;
+
+    const base = y + chartHeight;
+    const outline = [[points[0][0], base], ...points, [points[points.length - 1][0], base]];
+    const deltas = outline.slice(1).map((point, idx) => [point[0] - outline[idx][0], point[1] - outline[idx][1]]);
+    doc.setFillColor('#bfdbfe');
+    doc.lines(deltas, outline[0][0], outline[0][1], [1, 1], 'F', true);
+
+    const lineDeltas = points.slice(1).map((point, idx) => [point[0] - points[idx][0], point[1] - points[idx][1]]);
+    doc.setDrawColor('#2563eb');
+    doc.setLineWidth(1);
+    doc.lines(lineDeltas, points[0][0], points[0][1], [1, 1], 'S', false);
+  });
+
+  doc.setFontSize(7);
+  doc.setTextColor('#6b7280');
+  doc.text(`${Math.round(maxElevation)} m`, chartX - 3, y + 6, { align: 'right' });
+  doc.text(`${Math.round(minElevation)} m`, chartX - 3, y + chartHeight, { align: 'right' });
+  doc.text('0 km', chartX, y + height - 2);
+  doc.text(`${stats.distance.toFixed(1)} km`, chartX + chartWidth, y + height - 2, { align: 'right' });
+  doc.setTextColor('#000000');
+
+  (track.sampledPoints || []).forEach((point, idx) => {
+    if (point.ele === undefined) return;
+    drawNumberMarker(doc, toX(point.distance ?? 0), toY(point.ele), String(idx + 1));
+  });
+}
+
+function drawTableHeader(doc: jsPDF, y: number) {
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'bold');
+  doc.text('#', MARGIN + TABLE_COLUMNS.index, y);
+  doc.text('Distance', MARGIN + TABLE_COLUMNS.distance, y);
+  doc.text('ETA', MARGIN + TABLE_COLUMNS.eta, y);
+  doc.text('Elevation', MARGIN + TABLE_COLUMNS.elevation, y);
+  doc.text('Temperature', MARGIN + TABLE_COLUMNS.temp, y);
+  doc.text('Wind', MARGIN + TABLE_COLUMNS.wind, y);
+  doc.text('Rain', MARGIN + TABLE_COLUMNS.rain, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setDrawColor('#9ca3af');
+  doc.setLineWidth(0.5);
+  doc.line(MARGIN, y + 5, PAGE_WIDTH - MARGIN, y + 5);
+}
+
+// Title and date on top of every page, page numbers at the bottom
+function drawHeadersAndFooters(doc: jsPDF, title: string) {
+  const pageCount = doc.getNumberOfPages();
+  const date = new Date().toLocaleDateString();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor('#6b7280');
+    doc.text(title, MARGIN, 28);
+    doc.text(date, PAGE_WIDTH - MARGIN, 28, { align: 'right' });
+    doc.setDrawColor('#d1d5db');
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, 34, PAGE_WIDTH - MARGIN, 34);
+    doc.line(MARGIN, PAGE_HEIGHT - 34, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 34);
+    doc.text('TrailCast - weather data by Open-Meteo', MARGIN, PAGE_HEIGHT - 22);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 22, { align: 'right' });
+    doc.setTextColor('#000000');
+  }
+}
+
+// Printable report of one or more tracks: a summary page comparing the tracks
+// when there are several, then per track a map snapshot, the elevation profile
+// and a table of the forecast at each weather point, with waypoints in between.
+// `colors` are the map colours of the tracks, in the same order.
+export async function exportWeatherPdf(tracks: ProcessedTrack[], title: string, colors: string[] = []) {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  let y = CONTENT_TOP;
+
+  const nextLine = (height = ROW_HEIGHT, onNewPage?: () => void) => {
+    y += height;
+    if (y > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = CONTENT_TOP;
+      onNewPage?.();
+    }
+  };
+
+  doc.setFontSize(18);
+  doc.text(title, MARGIN, y);
+  y += 30;
+
+  if (tracks.length > 1) {
+    const columns = [0, 160, 215, 300, 360, 440];
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    ['Track', 'Distance', 'Ascent / Descent', 'Date', 'Temp', 'Wind / Rain'].forEach((header, idx) =>
+      doc.text(header, MARGIN + columns[idx], y)
+    );
+    doc.setFont('helvetica', 'normal');
+    nextLine();
+
+    tracks.forEach((track, idx) => {
+      const summary = getPdfTrackSummary(track);
+      const name = doc.splitTextToSize(`${idx + 1}. ${track.name || 'Track'}`, 150)[0];
+      [name, summary.distance, `${summary.ascent} / ${summary.descent}`, summary.forecastDate, summary.temp, `${summary.wind} / ${summary.rain}`]
+        .forEach((value, col) => doc.text(value, MARGIN + columns[col], y));
+      nextLine();
+    });
+
+    const allStats = tracks.map(track => track.stats ?? getTrackStats(track.points));
+    const totalDistance = allStats.reduce((sum, stats) => sum + stats.distance, 0);
+    const totalAscent = allStats.reduce((sum, stats) => sum + (stats.ascent ?? 0), 0);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Total: ${tracks.length} tracks, ${totalDistance.toFixed(1)} km, ${totalAscent.toFixed(0)} m ascent`, MARGIN, y + 10);
+    doc.setFont('helvetica', 'normal');
+  }
+
+  for (const [trackIdx, track] of tracks.entries()) {
+    if (tracks.length > 1) {
+      doc.addPage();
+      y = CONTENT_TOP;
+    }
+
+    const summary = getPdfTrackSummary(track);
+    doc.setFontSize(14);
+    doc.text(tracks.length > 1 ? `${trackIdx + 1}. ${track.name || 'Track'}` : track.name || 'Track', MARGIN, y);
+    y += 16;
+    doc.setFontSize(9);
+    doc.text(
+      `Distance: ${summary.distance}   Ascent: ${summary.ascent}   Descent: ${summary.descent}   Est. time: ${summary.duration}   Forecast: ${summary.forecastDate}`,
+      MARGIN,
+      y
+    );
+    y += 12;
+
+    const snapshot = await renderTrackSnapshot(track, {
+      width: 720,
+      height: Math.round((720 * MAP_HEIGHT) / CONTENT_WIDTH),
+      color: colors[trackIdx] || TRACK_COLORS[0]
+    });
+    if (snapshot) {
+      doc.addImage(snapshot, 'JPEG', MARGIN, y, CONTENT_WIDTH, MAP_HEIGHT);
+      y += MAP_HEIGHT + 12;
+    }
+
+    drawProfile(doc, track, MARGIN, y, CONTENT_WIDTH, PROFILE_HEIGHT);
+    y += PROFILE_HEIGHT + 24;
+
+    drawTableHeader(doc, y);
+    const repeatHeader = () => {
+      drawTableHeader(doc, y);
+      y += ROW_HEIGHT;
+    };
+    nextLine(ROW_HEIGHT, repeatHeader);
+
+    // Weather rows and waypoint rows, in order along the route
+    const rows: Array<{ distance: number; weatherIndex?: number; waypoint?: Waypoint }> = [
+      ...(track.sampledPoints || []).map((point, idx) => ({ distance: point.distance || 0, weatherIndex: idx })),
+      ...(track.waypoints || []).map(waypoint => ({ distance: waypoint.distance || 0, waypoint }))
+    ].sort((a, b) => a.distance - b.distance);
+
+    // Time from the start to each row with the pace of the track estimate
+    const etas = track.estimate ? getPointEtas(track.points, track.estimate.settings) : [];
+    const eta = (distance: number) => {
+      const seconds = etas[findPointIndexAtDistance(track.points, distance)];
+      return seconds !== undefined ? formatDuration(seconds) : '';
+    };
+
+    rows.forEach(row => {
+      doc.setFontSize(9);
+      if (row.waypoint) {
+        const waypoint = row.waypoint;
+        const name = waypoint.name ? `: ${waypoint.name}` : '';
+        doc.setTextColor('#6b7280');
+        doc.text(`km ${row.distance.toFixed(1)}`, MARGIN + TABLE_COLUMNS.distance, y);
+        doc.text(eta(row.distance), MARGIN + TABLE_COLUMNS.eta, y);
+        doc.text(`${WAYPOINT_LABELS[waypoint.category]}${name}`, MARGIN + TABLE_COLUMNS.elevation, y);
+        doc.setTextColor('#000000');
+      } else {
+        const point = track.sampledPoints![row.weatherIndex!];
+        const weather = track.weatherData?.[row.weatherIndex!];
+        if (!weather) return;
+        drawNumberMarker(doc, MARGIN + TABLE_COLUMNS.index + 5, y - 3, String(row.weatherIndex! + 1));
+        doc.setFontSize(9);
+        doc.text(`km ${row.distance.toFixed(1)}`, MARGIN + TABLE_COLUMNS.distance, y);
+        doc.text(eta(row.distance), MARGIN + TABLE_COLUMNS.eta, y);
+        doc.text(point.ele != null ? `${point.ele.toFixed(0)} m` : 'N/A', MARGIN + TABLE_COLUMNS.elevation, y);
+        doc.text(
+          `${weather.apparent_temperature_min.toFixed(1)} to ${weather.apparent_temperature_max.toFixed(1)}°C`,
+          MARGIN + TABLE_COLUMNS.temp,
+          y
+        );
+        doc.setDrawColor('#000000');
+        doc.setFillColor('#000000');
+        drawWindArrow(doc, MARGIN + TABLE_COLUMNS.wind + 5, y - 3, weather.wind_direction_10m_dominant);
+        doc.text(`${weather.wind_speed_10m_max.toFixed(0)} km/h`, MARGIN + TABLE_COLUMNS.wind + 16, y);
+        doc.text(`${weather.rain_sum.toFixed(1)} mm`, MARGIN + TABLE_COLUMNS.rain, y);
+      }
+      nextLine(ROW_HEIGHT, repeatHeader);
+    });
+  }
+
+  drawHeadersAndFooters(doc, title);
+  doc.save(`${title}.pdf`);
+}
@@ -0,0 +1,209 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ProcessedTrack } from '@/types';
+import { WAYPOINT_ICONS, downloadFile, escapeXml, getTrackStats, splitSegments, trackFileNames } from '@/lib/utils';
+
+export type ProfileImageFormat = 'png' | 'svg';
+
+export interface ProfileImageOptions {
+  width?: number;
+  height?: number;
+  showWeather?: boolean;
+  showWaypoints?: boolean;
+}
+
+const DEFAULT_WIDTH = 1200;
+const DEFAULT_HEIGHT = 400;
+const PADDING = { top: 56, right: 24, bottom: 48, left: 68 };
+
+// Same light palette as the PDF report, images are meant to be printed or
+// pasted into briefings regardless of the app theme
+const COLORS = {
+  background: '#ffffff',
+  grid: '#e5e7eb',
+  axis: '#9ca3af',
+  text: '#374151',
+  muted: '#6b7280',
+  fill: '#bfdbfe',
+  line: '#2563eb',
+  marker: '#1f2937',
+  waypoint: '#888888'
+};
+
+const FONT = 'font-family="Helvetica, Arial, sans-serif"';
+
+// Round tick spacing (1, 2 or 5 times a power of ten) giving about `count` ticks
+function niceStep(range: number, count: number): number {
+  const rough = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// Draw the elevation profile of a track as a standalone SVG document, with
+// axes, totals and optional weather point and waypoint markers. Only needs
+// the track data, so it works for tracks that are not shown on screen.
+export function renderProfileSvg(track: ProcessedTrack, options: ProfileImageOptions = {}): string {
+  const width = options.width ?? DEFAULT_WIDTH;
+  const height = options.height ?? DEFAULT_HEIGHT;
+  const { showWeather = true, showWaypoints = true } = options;
+
+  const stats = track.stats ?? getTrackStats(track.points);
+  const totalDistance = Math.max(stats.distance, 0.1);
+  const lowest = stats.minElevation ?? 0;
+  const highest = stats.maxElevation ?? 0;
+  const range = Math.max(highest - lowest, 50);
+  const elevationStep = niceStep(range, 5);
+  const minElevation = Math.floor(lowest / elevationStep) * elevationStep;
+  // Leave room above the highest point for the weather markers
+  const maxElevation = Math.ceil((highest + range * 0.08) / elevationStep) * elevationStep;
+  const distanceStep = niceStep(totalDistance, 8);
+
+  const chartWidth = width - PADDING.left - PADDING.right;
+  const chartHeight = height - PADDING.top - PADDING.bottom;
+  const chartBottom = PADDING.top + chartHeight;
+  const toX = (distance: number) => PADDING.left + (distance / totalDistance) * chartWidth;
+  const toY = (elevation: number) =>
+    chartBottom - ((elevation - minElevation) / (maxElevation - minElevation)) * chartHeight;
+  const coord = (value: number) => value.toFixed(1);
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="${COLORS.background}"/>`);
+
+  // Title with the totals
+  const name = track.name || 'Track';
+  parts.push(
+    `<text x="${PADDING.left}" y="30" ${FONT} font-size="18" font-weight="bold" fill="${COLORS.text}">${escapeXml(name)}</text>`,
+    `<text x="${width - PADDING.right}" y="30" ${FONT} font-size="14" fill="${COLORS.muted}" text-anchor="end">` +
+      `Distance: ${stats.distance.toFixed(1)} km   Ascent: ${(stats.ascent ?? 0).toFixed(0)} m   Descent: ${(stats.descent ?? 0).toFixed(0)} m</text>`
+  );
+
+  // Grid and tick labels
+  for (let elevation = minElevation; elevation <= maxElevation + elevationStep / 1000; elevation += elevationStep) {
+    const y = coord(toY(elevation));
+    parts.push(
+      `<line x1="${PADDING.left}" y1="${y}" x2="${width - PADDING.right}" y2="${y}" stroke="${COLORS.grid}"/>`,
+      `<text x="${PADDING.left - 8}" y="${y}" ${FONT} font-size="12" fill="${COLORS.muted}" text-anchor="end" dominant-baseline="middle">${formatNumber(elevation)}</text>`
+    );
+  }
+  for (let distance = 0; distance <= totalDistance + distanceStep / 1000; distance += distanceStep) {
+    const x = coord(toX(distance));
+    parts.push(
+      `<line x1="${x}" y1="${PADDING.top}" x2="${x}" y2="${chartBottom}" stroke="${COLORS.grid}"/>`,
+      `<text x="${x}" y="${chartBottom + 18}" ${FONT} font-size="12" fill="${COLORS.muted}" text-anchor="middle">${formatNumber(distance)}</text>`
+    );
+  }
+
+  // Elevation area, one path per segment so gaps are not bridged. A few points
+  // per pixel column are plenty.
+  const stride = Math.max(1, Math.floor(track.points.length / (chartWidth * 2)));
+  splitSegments(track.points).forEach(segment => {
+    const points = segment
+      .filter((point, idx) => point.ele !== undefined && (idx % stride === 0 || idx === segment.length - 1))
+      .map(point => `${coord(toX(point.distance ?? 0))},${coord(toY(point.ele!))}`);
+    if (points.length < 2) return;
+    const first = points[0].split(',')[0];
+    const last = points[points.length - 1].split(',')[0];
+    parts.push(
+      `<polygon points="${first},${chartBottom} ${points.join(' ')} ${last},${chartBottom}" fill="${COLORS.fill}"/>`,
+      `<polyline points="${points.join(' ')}" fill="none" stroke="${COLORS.line}" stroke-width="2" stroke-linejoin="round"/>`
+    );
+  });
+
+  // Axes and their labels
+  parts.push(
+    `<line x1="${PADDING.left}" y1="${PADDING.top}" x2="${PADDING.left}" y2="${chartBottom}" stroke="${COLORS.axis}"/>`,
+    `<line x1="${PADDING.left}" y1="${chartBottom}" x2="${width - PADDING.right}" y2="${chartBottom}" stroke="${COLORS.axis}"/>`,
+    `<text x="${PADDING.left + chartWidth / 2}" y="${height - 10}" ${FONT} font-size="13" fill="${COLORS.text}" text-anchor="middle">Distance (km)</text>`,
+    `<text transform="translate(18 ${PADDING.top + chartHeight / 2}) rotate(-90)" ${FONT} font-size="13" fill="${COLORS.text}" text-anchor="middle">Elevation (m)</text>`
+  );
+
+  if (showWaypoints) {
+    (track.waypoints || []).forEach(waypoint => {
+      if (waypoint.distance === undefined) return;
+      const x = coord(toX(waypoint.distance));
+      parts.push(
+        `<line x1="${x}" y1="${PADDING.top}" x2="${x}" y2="${chartBottom}" stroke="${COLORS.waypoint}" stroke-dasharray="3 3"/>`,
+        `<text x="${x}" y="${PADDING.top + 16}" ${FONT} font-size="14" text-anchor="middle">` +
+          `${WAYPOINT_ICONS[waypoint.category]}${waypoint.name ? `<title>${escapeXml(waypoint.name)}</title>` : ''}</text>`
+      );
+    });
+  }
+
+  if (showWeather) {
+    (track.sampledPoints || []).forEach((point, idx) => {
+      if (point.ele === undefined) return;
+      const x = coord(toX(point.distance ?? 0));
+      const y = coord(toY(point.ele));
+      parts.push(
+        `<circle cx="${x}" cy="${y}" r="10" fill="${COLORS.marker}" stroke="#ffffff" stroke-width="2"/>`,
+        `<text x="${x}" y="${y}" ${FONT} font-size="11" font-weight="bold" fill="#ffffff" text-anchor="middle" dominant-baseline="central">${idx + 1}</text>`
+      );
+    });
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n` +
+    `${parts.join('\n')}\n</svg>\n`;
+}
+
+// Rasterise an SVG document through an image and a canvas, at twice the size
+// for sharp text on high density screens and in print
+export function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG image'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the profile image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+async function renderProfileImage(
+  track: ProcessedTrack,
+  format: ProfileImageFormat,
+  options: ProfileImageOptions
+): Promise<Uint8Array> {
+  const svg = renderProfileSvg(track, options);
+  if (format === 'svg') return strToU8(svg);
+  const png = await svgToPng(svg, options.width ?? DEFAULT_WIDTH, options.height ?? DEFAULT_HEIGHT);
+  return new Uint8Array(await png.arrayBuffer());
+}
+
+// Download the profile of one track as an image, or the profiles of several
+// tracks (e.g. every stage of a trip) in one ZIP file
+export async function exportProfileImages(
+  tracks: ProcessedTrack[],
+  title: string,
+  format: ProfileImageFormat,
+  options: ProfileImageOptions = {}
+) {
+  if (!tracks.length) return;
+
+  const mimeType = format === 'svg' ? 'image/svg+xml' : 'image/png';
+  if (tracks.length === 1) {
+    downloadFile(await renderProfileImage(tracks[0], format, options), `${title}.${format}`, mimeType);
+    return;
+  }
+
+  const names = trackFileNames(tracks, format);
+  const files: Record<string, Uint8Array> = {};
+  for (const [idx, track] of tracks.entries()) {
+    files[names[idx]] = await renderProfileImage(track, format, options);
+  }
+  // PNG data is already compressed
+  downloadFile(zipSync(files, { level: format === 'svg' ? 6 : 0 }), `${title}.zip`, 'application/zip');
+}
@@ -0,0 +1,236 @@
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import { GpxPoint, ParsedTrack, ProcessedTrack, SharedPlan, Waypoint, WaypointCategory } from '@/types';
+import { addDistances, attachWaypoints, splitSegments, WAYPOINT_ICONS } from '@/lib/utils';
+
+const SHARE_VERSION = 1;
+const HASH_PREFIX = '#plan=';
+
+// Links stay comfortably below the length chat apps and mail clients cut off
+const MAX_ENCODED_LENGTH = 6000;
+
+// Simplification tolerances in degrees (~2 m to ~100 m), tried in order until
+// the link is short enough
+const TOLERANCES = [0.00002, 0.00005, 0.0001, 0.0002, 0.0005, 0.001];
+
+interface SharedTrackPayload {
+  n?: string;
+  s: string[]; // encoded polyline per segment
+  e?: string[]; // encoded elevations (whole metres) per segment
+  w?: Array<[number, number, string?, WaypointCategory?]>;
+}
+
+interface SharePayload {
+  v: number;
+  d: string;
+  t?: string;
+  k: SharedTrackPayload[];
+}
+
+// Signed integer encoding of the Google polyline algorithm
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let output = '';
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return output + String.fromCharCode(v + 63);
+}
+
+function encodeDeltas(values: number[]): string {
+  let previous = 0;
+  return values.map(value => {
+    const encoded = encodeValue(value - previous);
+    previous = value;
+    return encoded;
+  }).join('');
+}
+
+// Raw signed values, before accumulating the deltas
+function decodeValues(text: string): number[] {
+  const values: number[] = [];
+  let index = 0;
+  while (index < text.length) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = text.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < text.length);
+    values.push(result & 1 ? ~(result >> 1) : result >> 1);
+  }
+  return values;
+}
+
+function decodeDeltas(text: string): number[] {
+  let current = 0;
+  return decodeValues(text).map(delta => (current += delta));
+}
+
+// Polyline with 5 decimals, interleaving latitude and longitude deltas
+function encodePolyline(points: GpxPoint[]): string {
+  let lat = 0;
+  let lon = 0;
+  return points.map(point => {
+    const nextLat = Math.round(point.lat * 1e5);
+    const nextLon = Math.round(point.lon * 1e5);
+    const encoded = encodeValue(nextLat - lat) + encodeValue(nextLon - lon);
+    lat = nextLat;
+    lon = nextLon;
+    return encoded;
+  }).join('');
+}
+
+function decodePolyline(text: string): GpxPoint[] {
+  const values = decodeValues(text);
+  const points: GpxPoint[] = [];
+  let lat = 0;
+  let lon = 0;
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    lat += values[i];
+    lon += values[i + 1];
+    points.push({ lat: lat / 1e5, lon: lon / 1e5 });
+  }
+  return points;
+}
+
+function perpendicularDistance(point: GpxPoint, start: GpxPoint, end: GpxPoint): number {
+  const dx = end.lon - start.lon;
+  const dy = end.lat - start.lat;
+  const length = dx * dx + dy * dy;
+  if (length === 0) return Math.hypot(point.lon - start.lon, point.lat - start.lat);
+  const t = Math.max(0, Math.min(1, ((point.lon - start.lon) * dx + (point.lat - start.lat) * dy) / length));
+  return Math.hypot(point.lon - (start.lon + t * dx), point.lat - (start.lat + t * dy));
+}
+
+// Douglas-Peucker simplification, iterative so long tracks cannot overflow the stack
+export function simplifyPoints(points: GpxPoint[], tolerance: number): GpxPoint[] {
+  if (points.length < 3) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+function toBase64Url(data: Uint8Array): string {
+  let binary = '';
+  data.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function encodePayload(payload: SharePayload): string {
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }));
+}
+
+function encodeTrack(track: ProcessedTrack, tolerance: number): SharedTrackPayload {
+  const segments = splitSegments(track.points).map(segment => simplifyPoints(segment, tolerance));
+  const hasElevation = track.points.some(point => point.ele !== undefined);
+  return {
+    n: track.name,
+    s: segments.map(encodePolyline),
+    ...(hasElevation ? { e: segments.map(segment => encodeDeltas(segment.map(p => Math.round(p.ele ?? 0)))) } : {}),
+    ...(track.waypoints?.length
+      ? { w: track.waypoints.map(w => [Number(w.lat.toFixed(5)), Number(w.lon.toFixed(5)), w.name, w.category]) }
+      : {})
+  };
+}
+
+// Build a link that opens the app with the given tracks, forecast date and
+// tab. Tracks are simplified just enough to keep the link short. Throws when
+// they do not fit even at the coarsest simplification, many apps cut off
+// longer links.
+export function createShareUrl(tracks: ProcessedTrack[], forecastDate: string, tab?: string): string {
+  let encoded = '';
+  for (const tolerance of TOLERANCES) {
+    encoded = encodePayload({
+      v: SHARE_VERSION,
+      d: forecastDate,
+      t: tab,
+      k: tracks.map(track => encodeTrack(track, tolerance))
+    });
+    if (encoded.length <= MAX_ENCODED_LENGTH) break;
+  }
+  if (encoded.length > MAX_ENCODED_LENGTH) {
+    throw new Error(`The ${tracks.length === 1 ? 'track is' : `${tracks.length} tracks are`} too long to fit in a link. Share fewer tracks or send a GPX export instead.`);
+  }
+
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_PREFIX.slice(1)}${encoded}`;
+  return url.toString();
+}
+
+export function hasSharedPlan(hash: string): boolean {
+  return hash.startsWith(HASH_PREFIX);
+}
+
+// Read the plan of a share link hash. Throws when the hash is damaged or
+// comes from a newer version of the app.
+export function parseShareHash(hash: string): SharedPlan {
+  if (!hasSharedPlan(hash)) {
+    throw new Error('Not a shared plan link');
+  }
+
+  let payload: SharePayload;
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(hash.slice(HASH_PREFIX.length)))));
+  } catch {
+    throw new Error('The shared plan link is damaged or incomplete');
+  }
+  if (typeof payload?.v !== 'number' || !Array.isArray(payload.k) || typeof payload.d !== 'string') {
+    throw new Error('The shared plan link is damaged or incomplete');
+  }
+  if (payload.v > SHARE_VERSION) {
+    throw new Error('The shared plan link was made by a newer version of TrailCast');
+  }
+
+  const tracks = payload.k.map((shared): ParsedTrack => {
+    const points = shared.s.flatMap((polyline, segmentIdx) => {
+      const elevations = shared.e ? decodeDeltas(shared.e[segmentIdx] || '') : [];
+      return decodePolyline(polyline).map((point, idx): GpxPoint => ({
+        ...point,
+        ...(elevations[idx] !== undefined ? { ele: elevations[idx] } : {}),
+        ...(shared.s.length > 1 ? { segment: segmentIdx } : {})
+      }));
+    });
+    return { name: shared.n, points: addDistances(points) };
+  });
+
+  payload.k.forEach((shared, idx) => {
+    const waypoints = (shared.w || []).map(([lat, lon, name, category]): Waypoint => ({
+      lat,
+      lon,
+      name,
+      category: category && category in WAYPOINT_ICONS ? category : 'other'
+    }));
+    attachWaypoints([tracks[idx]], waypoints);
+  });
+
+  return { forecastDate: payload.d, tab: payload.t, tracks };
+}
@@ -0,0 +1,210 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ProcessedTrack } from '@/types';
+import { downloadFile, escapeXml } from '@/lib/utils';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface WeatherExportOptions {
+  units?: UnitSystem;
+  /** Only used by CSV, XLSX stores plain numbers */
+  decimalSeparator?: '.' | ',';
+}
+
+type Cell = string | number | undefined;
+
+interface Sheet {
+  name: string;
+  rows: Cell[][];
+}
+
+// Unit label and conversion from the metric values the app stores
+const UNITS: Record<UnitSystem, Record<'distance' | 'elevation' | 'temperature' | 'speed' | 'rain', [string, (value: number) => number]>> = {
+  metric: {
+    distance: ['km', value => value],
+    elevation: ['m', value => value],
+    temperature: ['°C', value => value],
+    speed: ['km/h', value => value],
+    rain: ['mm', value => value]
+  },
+  imperial: {
+    distance: ['mi', value => value * 0.621371],
+    elevation: ['ft', value => value * 3.28084],
+    temperature: ['°F', value => value * 9 / 5 + 32],
+    speed: ['mph', value => value * 0.621371],
+    rain: ['in', value => value / 25.4]
+  }
+};
+
+function round(value: number | undefined, decimals: number): number | undefined {
+  return value === undefined || !isFinite(value) ? undefined : Number(value.toFixed(decimals));
+}
+
+// One row per sampled weather point: position, distance along the route,
+// elevation and every forecast field, converted to the chosen units
+export function getWeatherRows(track: ProcessedTrack, units: UnitSystem = 'metric'): Sheet['rows'] {
+  const unit = UNITS[units];
+  const convert = (kind: keyof typeof unit, value: number | undefined, decimals: number) =>
+    round(value === undefined ? undefined : unit[kind][1](value), decimals);
+
+  const header = [
+    '#',
+    'Latitude',
+    'Longitude',
+    `Distance (${unit.distance[0]})`,
+    `Elevation (${unit.elevation[0]})`,
+    'Date',
+    `Apparent temperature max (${unit.temperature[0]})`,
+    `Apparent temperature min (${unit.temperature[0]})`,
+    `Wind speed max (${unit.speed[0]})`,
+    'Wind direction (°)',
+    `Rain (${unit.rain[0]})`
+  ];
+
+  const rows = (track.sampledPoints || []).map((point, idx) => {
+    const weather = track.weatherData?.[idx];
+    return [
+      idx + 1,
+      round(point.lat, 6),
+      round(point.lon, 6),
+      convert('distance', point.distance, 2),
+      convert('elevation', point.ele, 0),
+      weather?.time,
+      convert('temperature', weather?.apparent_temperature_max, 1),
+      convert('temperature', weather?.apparent_temperature_min, 1),
+      convert('speed', weather?.wind_speed_10m_max, 1),
+      weather?.wind_direction_10m_dominant,
+      convert('rain', weather?.rain_sum, 2)
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+function csvCell(value: Cell, delimiter: string, decimalSeparator: string): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'number' ? String(value).replace('.', decimalSeparator) : value;
+  return /["\n\r]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Weather points of all tracks in one CSV, with the track name as first column.
+// A comma decimal separator switches the delimiter to a semicolon, as
+// spreadsheets in those locales expect.
+export function tracksToWeatherCsv(tracks: ProcessedTrack[], options: WeatherExportOptions = {}): string {
+  const decimalSeparator = options.decimalSeparator ?? '.';
+  const delimiter = decimalSeparator === ',' ? ';' : ',';
+
+  const rows = tracks.flatMap((track, trackIdx) => {
+    const [header, ...data] = getWeatherRows(track, options.units);
+    const name = track.name || `Track ${trackIdx + 1}`;
+    return [
+      ...(trackIdx === 0 ? [['Track', ...header]] : []),
+      ...data.map(row => [name, ...row])
+    ];
+  });
+
+  return rows.map(row => row.map(cell => csvCell(cell, delimiter, decimalSeparator)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function worksheetXml(rows: Cell[][]): string {
+  const rowsXml = rows.map((row, rowIdx) => {
+    const cells = row.map((cell, colIdx) => {
+      const ref = `${columnName(colIdx)}${rowIdx + 1}`;
+      if (cell === undefined) return '';
+      return typeof cell === 'number'
+        ? `<c r="${ref}"><v>${cell}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIdx + 1}">${cells.join('')}</row>`;
+  });
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowsXml.join('')}</sheetData></worksheet>`;
+}
+
+// Sheet names are limited to 31 characters, without []:*?/\ and unique
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, idx) => {
+    const base = (name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim() || `Track ${idx + 1}`).slice(0, 31);
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      unique = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+// Minimal Office Open XML workbook: inline strings and no styles, which
+// every spreadsheet application opens
+function buildXlsx(sheets: Sheet[]): Uint8Array {
+  const names = sheetNames(sheets.map(sheet => sheet.name));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map((_, idx) =>
+        `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, idx) => `<sheet name="${escapeXml(name)}" sheetId="${idx + 1}" r:id="rId${idx + 1}"/>`).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, idx) =>
+        `<Relationship Id="rId${idx + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${idx + 1}.xml"/>`
+      ).join('') +
+      '</Relationships>'
+    )
+  };
+  sheets.forEach((sheet, idx) => {
+    files[`xl/worksheets/sheet${idx + 1}.xml`] = strToU8(worksheetXml(sheet.rows));
+  });
+
+  return zipSync(files);
+}
+
+// Weather points as a workbook with one sheet per track
+export function tracksToWeatherXlsx(tracks: ProcessedTrack[], options: WeatherExportOptions = {}): Uint8Array {
+  return buildXlsx(tracks.map((track, idx) => ({
+    name: track.name || `Track ${idx + 1}`,
+    rows: getWeatherRows(track, options.units)
+  })));
+}
+
+export function exportWeatherCsv(tracks: ProcessedTrack[], title: string, options: WeatherExportOptions = {}) {
+  // The byte order mark makes Excel read the file as UTF-8 (°C, accents in names)
+  downloadFile(`\uFEFF${tracksToWeatherCsv(tracks, options)}`, `${title}.csv`, 'text/csv;charset=utf-8');
+}
+
+export function exportWeatherXlsx(tracks: ProcessedTrack[], title: string, options: WeatherExportOptions = {}) {
+  downloadFile(
+    tracksToWeatherXlsx(tracks, options),
+    `${title}.xlsx`,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
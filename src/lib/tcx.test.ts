@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseTcx } from '@/lib/tcx';
+
+function readFixture(name: string): string {
+  return readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+}
+
+describe('parseTcx', () => {
+  it('reads the points, times and sensor values of an activity', () => {
+    const [track] = parseTcx(readFixture('activity.tcx'));
+
+    expect(track.name).toBe('2024-06-01T08:00:00Z');
+    // The trackpoint without a position is skipped
+    expect(track.points).toHaveLength(5);
+    expect(track.points[0]).toMatchObject({
+      lat: 28.1,
+      lon: -15.45,
+      ele: 120,
+      time: '2024-06-01T08:00:00Z',
+      hr: 130,
+      cad: 85,
+      power: 210,
+      distance: 0
+    });
+    expect(track.points[2].hr).toBe(135);
+    expect(track.points[2].power).toBeUndefined();
+    expect(track.points[2].distance).toBeCloseTo(0.3, 2);
+  });
+
+  it('starts a new segment for every track of the laps', () => {
+    const [track] = parseTcx(readFixture('activity.tcx'));
+
+    expect(track.points.map(point => point.segment)).toEqual([0, 0, 0, 1, 1]);
+    // No distance is covered across the gap between the laps
+    expect(track.points[3].distance).toBe(track.points[2].distance);
+  });
+
+  it('turns course points into waypoints along the course', () => {
+    const [track] = parseTcx(readFixture('course.tcx'));
+
+    expect(track.name).toBe('Fixture Course');
+    expect(track.points).toHaveLength(3);
+    expect(track.points[0].time).toBeUndefined();
+    expect(track.waypoints).toHaveLength(2);
+    expect(track.waypoints![0]).toMatchObject({
+      name: 'Fuente',
+      type: 'Water',
+      description: 'Refill here',
+      category: 'water'
+    });
+    expect(track.waypoints![0].distance).toBeCloseTo(track.points[1].distance!, 6);
+    expect(track.waypoints![1]).toMatchObject({ name: 'Top', category: 'summit' });
+  });
+
+  it('rejects malformed XML', () => {
+    expect(() => parseTcx('<TrainingCenterDatabase><Courses>')).toThrow(/Invalid XML/);
+  });
+});
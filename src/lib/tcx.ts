@@ -0,0 +1,95 @@
+import { GpxPoint, ParsedTrack, Waypoint } from '@/types';
+import { addDistances, attachWaypoints, getWaypointCategory, parseXml } from '@/lib/utils';
+
+// TCX elements come with varying namespace prefixes (ns3:Watts, tpx:Watts...),
+// so look them up by local name only
+function findAll(node: Element | Document, name: string): Element[] {
+  return Array.from(node.getElementsByTagNameNS('*', name));
+}
+
+function findText(node: Element, name: string): string | undefined {
+  const element = findAll(node, name)[0];
+  return element?.textContent?.trim() || undefined;
+}
+
+function childText(node: Element, name: string): string | undefined {
+  const element = Array.from(node.children).find(child => child.localName === name);
+  return element?.textContent?.trim() || undefined;
+}
+
+function findNumber(node: Element, name: string): number | undefined {
+  const value = parseFloat(findText(node, name) ?? '');
+  return isNaN(value) ? undefined : value;
+}
+
+function parseTrackpoint(node: Element): GpxPoint | null {
+  const position = findAll(node, 'Position')[0];
+  if (!position) return null;
+
+  const lat = findNumber(position, 'LatitudeDegrees');
+  const lon = findNumber(position, 'LongitudeDegrees');
+  if (lat === undefined || lon === undefined) return null;
+
+  const point: GpxPoint = { lat, lon };
+  const ele = findNumber(node, 'AltitudeMeters');
+  if (ele !== undefined) point.ele = ele;
+  const time = findText(node, 'Time');
+  if (time) point.time = time;
+  const heartRate = findAll(node, 'HeartRateBpm')[0];
+  const hr = heartRate ? findNumber(heartRate, 'Value') : undefined;
+  if (hr !== undefined) point.hr = hr;
+  const cad = findNumber(node, 'Cadence') ?? findNumber(node, 'RunCadence');
+  if (cad !== undefined) point.cad = cad;
+  const power = findNumber(node, 'Watts');
+  if (power !== undefined) point.power = power;
+  return point;
+}
+
+function parseCoursePoint(node: Element): Waypoint | null {
+  const lat = findNumber(node, 'LatitudeDegrees');
+  const lon = findNumber(node, 'LongitudeDegrees');
+  if (lat === undefined || lon === undefined) return null;
+
+  const waypoint = {
+    lat,
+    lon,
+    ele: findNumber(node, 'AltitudeMeters'),
+    name: findText(node, 'Name'),
+    description: findText(node, 'Notes'),
+    type: findText(node, 'PointType')
+  };
+  return { ...waypoint, category: getWaypointCategory(waypoint) };
+}
+
+// Parse the courses and activities of a TCX document, one track each.
+// Every <Track> (one or more per lap) becomes a segment, like a GPX <trkseg>.
+// Course points become waypoints of their course.
+export function parseTcx(text: string, onProgress?: (progress: number) => void): ParsedTrack[] {
+  const tcxDoc = parseXml(text);
+  onProgress?.(0.5);
+  const tracks: ParsedTrack[] = [];
+
+  [...findAll(tcxDoc, 'Course'), ...findAll(tcxDoc, 'Activity')].forEach(node => {
+    const segments = findAll(node, 'Track')
+      .map(trackNode => findAll(trackNode, 'Trackpoint')
+        .map(parseTrackpoint)
+        .filter((point): point is GpxPoint => point !== null))
+      .filter(segment => segment.length > 0);
+    const points = segments.flatMap((segment, index) => segment.map(point => ({ ...point, segment: index })));
+    if (!points.length) return;
+
+    const track: ParsedTrack = {
+      name: childText(node, 'Name') || childText(node, 'Id'),
+      points: addDistances(points)
+    };
+
+    const waypoints = findAll(node, 'CoursePoint')
+      .map(parseCoursePoint)
+      .filter((waypoint): waypoint is Waypoint => waypoint !== null);
+    attachWaypoints([track], waypoints);
+
+    tracks.push(track);
+  });
+
+  return tracks;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TrackWorkerResponse } from '@/types';
+
+// Stand-in for the track worker that answers after a tick and counts how
+// many run at once
+class FakeWorker {
+  static running = 0;
+  static peak = 0;
+  onmessage: ((event: MessageEvent<TrackWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  private terminated = false;
+
+  constructor() {
+    FakeWorker.running++;
+    FakeWorker.peak = Math.max(FakeWorker.peak, FakeWorker.running);
+  }
+
+  postMessage() {
+    setTimeout(() => {
+      if (this.terminated) return;
+      this.onmessage?.({ data: { type: 'result', tracks: [], warnings: [] } } as unknown as MessageEvent<TrackWorkerResponse>);
+    }, 5);
+  }
+
+  terminate() {
+    if (this.terminated) return;
+    this.terminated = true;
+    FakeWorker.running--;
+  }
+}
+
+async function loadClient(hardwareConcurrency: number) {
+  vi.resetModules();
+  vi.stubGlobal('Worker', FakeWorker);
+  vi.stubGlobal('navigator', { hardwareConcurrency });
+  vi.stubGlobal('location', { href: 'http://localhost/' });
+  FakeWorker.running = 0;
+  FakeWorker.peak = 0;
+  return import('@/lib/track-worker-client');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('prepareTracksInWorker', () => {
+  it('runs no more workers at once than the device has cores, up to four', async () => {
+    const { prepareTracksInWorker } = await loadClient(2);
+    const files = Array.from({ length: 12 }, (_, i) => new File(['<gpx></gpx>'], `${i}.gpx`));
+
+    await Promise.all(files.map(file => prepareTracksInWorker(file)));
+
+    expect(FakeWorker.peak).toBe(2);
+    expect(FakeWorker.running).toBe(0);
+  });
+
+  it('caps the workers on devices with many cores', async () => {
+    const { prepareTracksInWorker } = await loadClient(16);
+    const files = Array.from({ length: 12 }, (_, i) => new File(['<gpx></gpx>'], `${i}.gpx`));
+
+    await Promise.all(files.map(file => prepareTracksInWorker(file)));
+
+    expect(FakeWorker.peak).toBe(4);
+  });
+
+  it('drops a waiting file from the queue when its import is cancelled', async () => {
+    const { prepareTracksInWorker } = await loadClient(1);
+    const controller = new AbortController();
+
+    const first = prepareTracksInWorker(new File([''], 'a.gpx'));
+    const cancelled = prepareTracksInWorker(new File([''], 'b.gpx'), { signal: controller.signal });
+    const third = prepareTracksInWorker(new File([''], 'c.gpx'));
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(Promise.all([first, third])).resolves.toHaveLength(2);
+    expect(FakeWorker.peak).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { ImportStage, PreparedTrack, TrackWorkerRequest, TrackWorkerResponse } from '@/types';
+import { prepareTracks } from '@/lib/import';
+
+interface PrepareOptions {
+  onProgress?: (stage: ImportStage, progress: number) => void;
+  signal?: AbortSignal;
+  /** Hysteresis for the ascent and descent, see `getTrackStats` */
+  elevationThreshold?: number;
+}
+
+// Workers running at once. Each one holds its own copy of a file, so a ZIP
+// of dozens of tracks must not start dozens of them.
+const MAX_WORKERS = Math.min(
+  typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2,
+  4
+);
+
+let runningWorkers = 0;
+const waitingForWorker: Array<() => void> = [];
+
+// Wait for a free worker slot. Aborting while waiting gives up the place in
+// the queue and rejects with an AbortError.
+function acquireWorker(signal?: AbortSignal): Promise<void> {
+  if (runningWorkers < MAX_WORKERS) {
+    runningWorkers++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    };
+    const handleAbort = () => {
+      waitingForWorker.splice(waitingForWorker.indexOf(start), 1);
+      reject(new DOMException('Import cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+    waitingForWorker.push(start);
+  });
+}
+
+// Hand the slot to the next waiting file, if any
+function releaseWorker() {
+  const next = waitingForWorker.shift();
+  if (next) next();
+  else runningWorkers--;
+}
+
+// Prepare a track file in a dedicated worker so huge files don't freeze the
+// map, with at most `MAX_WORKERS` files at a time. Aborting the signal
+// terminates the worker and rejects with an AbortError.
+export async function prepareTracksInWorker(
+  source: File | string,
+  options: PrepareOptions = {}
+): Promise<{ tracks: PreparedTrack[]; warnings: string[] }> {
+  if (typeof Worker === 'undefined') {
+    return prepareTracks(source, options.onProgress, options.elevationThreshold);
+  }
+
+  await acquireWorker(options.signal);
+  try {
+    return await runWorker(source, options);
+  } finally {
+    releaseWorker();
+  }
+}
+
+function runWorker(
+  source: File | string,
+  { onProgress, signal, elevationThreshold }: PrepareOptions
+): Promise<{ tracks: PreparedTrack[]; warnings: string[] }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Import cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./track-worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Import cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<TrackWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve({ tracks: message.tracks, warnings: message.warnings });
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Track worker failed'));
+    };
+
+    // Relative URLs would resolve against the worker script
+    const request: TrackWorkerRequest = {
+      type: 'process',
+      source: typeof source === 'string' ? new URL(source, location.href).href : source,
+      elevationThreshold
+    };
+    worker.postMessage(request);
+  });
+}
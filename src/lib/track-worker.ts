@@ -0,0 +1,22 @@
+import { TrackWorkerRequest, TrackWorkerResponse } from '@/types';
+import { prepareTracks } from '@/lib/import';
+
+// Dedicated worker that parses and prepares one track file off the main thread.
+// Cancellation is done by the client terminating the worker.
+const post = (message: TrackWorkerResponse) =>
+  (self as unknown as Worker).postMessage(message);
+
+self.onmessage = async (event: MessageEvent<TrackWorkerRequest>) => {
+  if (event.data.type !== 'process') return;
+
+  try {
+    const { tracks, warnings } = await prepareTracks(
+      event.data.source,
+      (stage, progress) => post({ type: 'progress', stage, progress }),
+      event.data.elevationThreshold
+    );
+    post({ type: 'result', tracks, warnings });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,16 +1,33 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import * as toGeoJSON from '@tmcw/togeojson';
+import { DOMParser as XmlDOMParser, onErrorStopParsing } from '@xmldom/xmldom';
 // @ts-ignore - Ignore type issues with bbox
 import bbox from '@turf/bbox';
-import { GpxPoint, WeatherData, DailyWeatherData, ProcessedTrack } from '@/types';
-import { jsPDF } from 'jspdf';
+import { getGradientDistances, getPointGrades } from '@/lib/gradient';
+import { DEFAULT_PACE_SETTINGS } from '@/lib/pace';
+import {
+  GpxPoint,
+  WeatherData,
+  DailyWeatherData,
+  ProcessedTrack,
+  ParsedTrack,
+  Waypoint,
+  WaypointCategory,
+  TrackStats,
+  WeatherCache
+} from '@/types';
+
+export const MAP_STYLE_URL = 'https://api.maptiler.com/maps/topo-v2/style.json?key=r0T8W9TTH8XCCGoLL9gE';
+
+// Line colours of the tracks on the map, by track index
+export const TRACK_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEEAD'];
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export async function processGpxFile(file: File | string): Promise<GpxPoint[]> {
+export async function processGpxFile(file: File | string): Promise<ParsedTrack[]> {
   let text;
   if (typeof file === 'string') {
     // If file is a URL string, fetch it
@@ -21,33 +38,291 @@ export async function processGpxFile(file: File | string): Promise<GpxPoint[]> {
     text = await file.text();
   }
   
-  const parser = new DOMParser();
-  const gpxDoc = parser.parseFromString(text, 'text/xml');
+  return parseGpx(text);
+}
+
+// Parse an XML document, failing on malformed input. Uses xmldom rather than
+// the browser DOMParser so parsing also works inside the track worker.
+export function parseXml(text: string): Document {
+  const parser = new XmlDOMParser({ onError: onErrorStopParsing });
+  try {
+    return parser.parseFromString(text, 'text/xml') as unknown as Document;
+  } catch (error) {
+    const details = error instanceof Error ? error.message.split('\n')[0] : '';
+    throw new Error(`Invalid XML${details ? `: ${details}` : ''}`);
+  }
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// `onProgress` receives the share of the parsing done, building the XML
+// document and converting it take about half of the time each
+export function parseGpx(text: string, onProgress?: (progress: number) => void): ParsedTrack[] {
+  const gpxDoc = parseXml(text);
+  onProgress?.(0.5);
   const geoJson = toGeoJSON.gpx(gpxDoc);
+  onProgress?.(0.9);
+
+  // Tracks come first in togeojson's output, in document order
+  readGpxExtensions(gpxDoc).forEach((values, index) => {
+    const properties = geoJson.features[index]?.properties;
+    if (!properties) return;
+    properties.coordinateProperties = { ...properties.coordinateProperties, ...values };
+  });
   
-  if (!geoJson.features.length) return [];
-  
-  // Extract coordinates and elevation from GeoJSON
-  // @ts-ignore - GeoJSON type issues
-  const track = geoJson.features[0].geometry.coordinates.map(
-    ([lon, lat, ele]: number[]) => ({ lat, lon, ele })
+  return geoJsonToTracks(geoJson);
+}
+
+// Extension element names (any namespace) and their coordinateProperties key
+const GPX_EXTENSION_KEYS: Record<string, string> = {
+  hr: 'heart',
+  heart: 'heart',
+  cad: 'cads',
+  atemp: 'atemps',
+  power: 'powers'
+};
+
+// togeojson misplaces extension values (hr, cad...) of tracks with several
+// <trkseg>, and only reads the gpxtpx prefix. Read them again per segment,
+// skipping the same points and segments togeojson skips so they line up.
+function readGpxExtensions(doc: Document): Array<Record<string, unknown>> {
+  return Array.from(doc.getElementsByTagName('trk')).flatMap<Record<string, unknown>>(trk => {
+    const lines: Array<Record<string, Array<number | null>>> = [];
+
+    Array.from(trk.getElementsByTagName('trkseg')).forEach(segment => {
+      const points = Array.from(segment.getElementsByTagName('trkpt')).filter(pt =>
+        !isNaN(parseFloat(pt.getAttribute('lat') || '')) &&
+        !isNaN(parseFloat(pt.getAttribute('lon') || ''))
+      );
+      if (points.length < 2) return;
+
+      const values: Record<string, Array<number | null>> = {};
+      points.forEach((pt, index) => {
+        const extensions = pt.getElementsByTagName('extensions')[0];
+        if (!extensions) return;
+        Array.from(extensions.getElementsByTagName('*')).forEach(element => {
+          const key = GPX_EXTENSION_KEYS[element.localName];
+          const value = parseFloat(element.textContent || '');
+          if (!key || isNaN(value)) return;
+          values[key] = values[key] || new Array(points.length).fill(null);
+          values[key][index] = value;
+        });
+      });
+      lines.push(values);
+    });
+
+    if (!lines.length) return [];
+    if (lines.length === 1) return [lines[0]];
+
+    // Nest per segment like togeojson does for MultiLineStrings
+    const keys = new Set(lines.flatMap(values => Object.keys(values)));
+    return [Object.fromEntries(Array.from(keys).map(key => [key, lines.map(values => values[key] || [])]))];
+  });
+}
+
+// coordinateProperties keys used by togeojson for GPX / Garmin extensions
+const SENSOR_PROPERTIES: Array<['hr' | 'cad' | 'atemp' | 'power', string[]]> = [
+  ['hr', ['heart', 'heartRates']],
+  ['cad', ['cads', 'cadences']],
+  ['atemp', ['atemps']],
+  ['power', ['powers', 'watts']]
+];
+
+// Convert every LineString / MultiLineString feature into a track, keeping
+// the segments of a MultiLineString apart through the `segment` index.
+// Point features become waypoints of the track they lie closest to.
+export function geoJsonToTracks(geoJson: ReturnType<typeof toGeoJSON.kml>): ParsedTrack[] {
+  const tracks: ParsedTrack[] = [];
+  const waypoints: Waypoint[] = [];
+
+  geoJson.features.forEach(feature => {
+    const geometry = feature.geometry;
+    if (geometry?.type === 'Point') {
+      const [lon, lat, ele] = geometry.coordinates;
+      const properties = feature.properties || {};
+      const waypoint = {
+        lat,
+        lon,
+        ele,
+        name: properties.name || undefined,
+        description: properties.desc || properties.cmt || properties.description || undefined,
+        symbol: properties.sym || undefined,
+        type: properties.type || undefined
+      };
+      // Keep the category of waypoints exported by TrailCast itself
+      const category = properties.category in WAYPOINT_ICONS
+        ? properties.category as WaypointCategory
+        : getWaypointCategory(waypoint);
+      waypoints.push({ ...waypoint, category });
+      return;
+    }
+
+    // KML MultiGeometry comes through as a GeometryCollection
+    const geometries = geometry?.type === 'GeometryCollection' ? geometry.geometries : [geometry];
+    const lines: number[][][] = geometries.flatMap(g => {
+      if (g?.type === 'LineString') return [g.coordinates];
+      if (g?.type === 'MultiLineString') return g.coordinates;
+      return [];
+    });
+
+    // Per-point values (times, heart rate...) are arrays parallel to the
+    // coordinates, nested per segment for a MultiLineString
+    const coordinateProperties = geometry?.type === 'GeometryCollection'
+      ? {}
+      : feature.properties?.coordinateProperties || {};
+    const valueAt = (keys: string[], segment: number, line: number[][], index: number) => {
+      for (const key of keys) {
+        const values = coordinateProperties[key];
+        const list = lines.length > 1 ? values?.[segment] : values;
+        // Skip lists that don't line up with the coordinates
+        if (Array.isArray(list) && list.length === line.length && list[index] != null) {
+          return list[index];
+        }
+      }
+      return undefined;
+    };
+
+    const points: GpxPoint[] = lines.flatMap((line, segment) =>
+      line.map(([lon, lat, ele], index) => {
+        const point: GpxPoint = lines.length > 1 ? { lat, lon, ele, segment } : { lat, lon, ele };
+        const time = valueAt(['times'], segment, line, index);
+        if (typeof time === 'string') point.time = time;
+        SENSOR_PROPERTIES.forEach(([field, keys]) => {
+          const value = valueAt(keys, segment, line, index);
+          if (typeof value === 'number') point[field] = value;
+        });
+        return point;
+      })
+    );
+    if (!points.length) return;
+
+    tracks.push({
+      name: feature.properties?.name || undefined,
+      points: addDistances(points)
+    });
+  });
+
+  attachWaypoints(tracks, waypoints);
+  return tracks;
+}
+
+// Give each waypoint to the track it lies closest to, with its distance along that track
+export function attachWaypoints(tracks: ParsedTrack[], waypoints: Waypoint[]): void {
+  waypoints.forEach(waypoint => {
+    let closest: { track: ParsedTrack; point: GpxPoint; distance: number } | null = null;
+    for (const track of tracks) {
+      const point = findClosestPoint(track.points, waypoint.lat, waypoint.lon);
+      const distance = calculateDistance(point.lat, point.lon, waypoint.lat, waypoint.lon);
+      if (!closest || distance < closest.distance) {
+        closest = { track, point, distance };
+      }
+    }
+    if (!closest) return;
+
+    const { track, point } = closest;
+    track.waypoints = [...(track.waypoints || []), { ...waypoint, distance: point.distance }]
+      .sort((a, b) => (a.distance || 0) - (b.distance || 0));
+  });
+}
+
+export function findClosestPoint(points: GpxPoint[], lat: number, lon: number): GpxPoint {
+  let closest = points[0];
+  let minDistance = Infinity;
+  points.forEach(point => {
+    const distance = calculateDistance(point.lat, point.lon, lat, lon);
+    if (distance < minDistance) {
+      minDistance = distance;
+      closest = point;
+    }
+  });
+  return closest;
+}
+
+const WAYPOINT_KEYWORDS: Array<[WaypointCategory, string[]]> = [
+  ['water', ['water', 'fountain', 'fuente', 'spring', 'drink']],
+  ['food', ['food', 'restaurant', 'cafe', 'bar', 'shop', 'store', 'market', 'bakery']],
+  ['ferry', ['ferry', 'port', 'harbor', 'harbour', 'marina', 'boat']],
+  ['camp', ['camp', 'tent', 'lodging', 'hotel', 'hostel', 'shelter', 'bivouac']],
+  ['summit', ['summit', 'peak', 'pass', 'col']]
+];
+
+export const WAYPOINT_ICONS: Record<WaypointCategory, string> = {
+  water: '💧',
+  food: '🍴',
+  ferry: '⛴️',
+  camp: '⛺',
+  summit: '⛰️',
+  other: '📍'
+};
+
+export const WAYPOINT_LABELS: Record<WaypointCategory, string> = {
+  water: 'Water',
+  food: 'Food',
+  ferry: 'Ferry',
+  camp: 'Camp',
+  summit: 'Summit',
+  other: 'Waypoint'
+};
+
+// Guess the kind of POI from its symbol, type and name
+export function getWaypointCategory(
+  waypoint: Pick<Waypoint, 'name' | 'symbol' | 'type'>
+): WaypointCategory {
+  const text = [waypoint.symbol, waypoint.type, waypoint.name].join(' ').toLowerCase();
+  const words = text.split(/[^a-z]+/);
+  const match = WAYPOINT_KEYWORDS.find(([, keywords]) =>
+    keywords.some(keyword => words.some(word => word.startsWith(keyword)))
   );
-  
-  // Calculate distance from start for each point
+  return match ? match[0] : 'other';
+}
+
+// Calculate distance from start for each point, without bridging the gap
+// between two segments
+export function addDistances(points: GpxPoint[]): GpxPoint[] {
   let totalDistance = 0;
-  const trackWithDistance = track.map((point: any, index: number) => {
+  return points.map((point, index) => {
     if (index === 0) {
       return { ...point, distance: 0 };
     }
     
-    const prevPoint = track[index - 1];
-    const distance = calculateDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon);
-    totalDistance += distance;
+    const prevPoint = points[index - 1];
+    if ((prevPoint.segment ?? 0) === (point.segment ?? 0)) {
+      totalDistance += calculateDistance(prevPoint.lat, prevPoint.lon, point.lat, point.lon);
+    }
     
     return { ...point, distance: totalDistance };
   });
-  
-  return trackWithDistance;
+}
+
+// Index of the last point at or before the given distance along the track
+export function findPointIndexAtDistance(points: GpxPoint[], distance: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if ((points[middle].distance ?? 0) <= distance) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+// Split a track into its segments (a single array for unsegmented tracks)
+export function splitSegments(points: GpxPoint[]): GpxPoint[][] {
+  const segments: GpxPoint[][] = [];
+  points.forEach((point, index) => {
+    if (index === 0 || (points[index - 1].segment ?? 0) !== (point.segment ?? 0)) {
+      segments.push([]);
+    }
+    segments[segments.length - 1].push(point);
+  });
+  return segments;
 }
 
 export function getTrackPoints(points: GpxPoint[]): GpxPoint[] {
@@ -95,6 +370,84 @@ export function getTrackPoints(points: GpxPoint[]): GpxPoint[] {
   return sampledPoints;
 }
 
+// Key points along the track to fetch weather for, at most 10
+export function getWeatherPoints(points: GpxPoint[]): GpxPoint[] {
+  // Get key elevation points (peaks, valleys, etc.)
+  const keyPoints = getTrackPoints(points);
+  
+  // Limit to 10 points for weather API calls
+  return keyPoints.length > 10 
+    ? [
+        keyPoints[0], // Always include start
+        ...keyPoints.slice(1, keyPoints.length - 1).slice(0, 8), // Take up to 8 middle points
+        keyPoints[keyPoints.length - 1] // Always include end
+      ]
+    : keyPoints;
+}
+
+// Default hysteresis for ascent and descent, enough to absorb the jitter of
+// GPS and barometric elevation without hiding short climbs
+export const DEFAULT_ELEVATION_THRESHOLD = 5;
+
+// Total ascent and descent with a hysteresis: the elevation only counts as
+// changed once it moved by at least `threshold` meters from the last
+// reference, so noise around a constant height adds nothing. Segments are
+// measured separately. Null when the points carry no elevation.
+export function getElevationChange(
+  points: GpxPoint[],
+  threshold = DEFAULT_ELEVATION_THRESHOLD
+): { ascent: number; descent: number } | null {
+  let ascent = 0;
+  let descent = 0;
+  let reference: number | undefined;
+  let hasElevation = false;
+  points.forEach((point, idx) => {
+    if (idx > 0 && (points[idx - 1].segment ?? 0) !== (point.segment ?? 0)) reference = undefined;
+    if (point.ele === undefined) return;
+    hasElevation = true;
+    if (reference === undefined) {
+      reference = point.ele;
+    } else if (point.ele - reference >= threshold) {
+      ascent += point.ele - reference;
+      reference = point.ele;
+    } else if (reference - point.ele >= threshold) {
+      descent += reference - point.ele;
+      reference = point.ele;
+    }
+  });
+  return hasElevation ? { ascent, descent } : null;
+}
+
+// Distance, elevation range, ascent and descent in a single pass, spreading
+// huge arrays into Math.min/max would overflow the call stack
+export function getTrackStats(points: GpxPoint[], elevationThreshold = DEFAULT_ELEVATION_THRESHOLD): TrackStats {
+  let minElevation: number | undefined;
+  let maxElevation: number | undefined;
+  points.forEach(point => {
+    if (point.ele === undefined) return;
+    if (minElevation === undefined || point.ele < minElevation) minElevation = point.ele;
+    if (maxElevation === undefined || point.ele > maxElevation) maxElevation = point.ele;
+  });
+  const elevationChange = getElevationChange(points, elevationThreshold);
+  const grades = elevationChange ? getPointGrades(points) : [];
+  const gradients = elevationChange
+    ? {
+        gradientDistances: getGradientDistances(points, grades),
+        maxGrade: grades.reduce<number>((max, grade) => (grade !== null && grade > max ? grade : max), 0)
+      }
+    : {};
+
+  return {
+    distance: points[points.length - 1]?.distance ?? 0,
+    minElevation,
+    maxElevation,
+    ...elevationChange,
+    elevationThreshold,
+    ...gradients,
+    pointCount: points.length
+  };
+}
+
 // Find significant elevation points (peaks and valleys)
 function findSignificantElevationPoints(points: GpxPoint[]): GpxPoint[] {
   if (points.length < 3) return [];
@@ -267,6 +620,15 @@ export function getWeatherCache(): Record<string, { data: DailyWeatherData; time
   }
 }
 
+// Replace the entire weather cache
+export function saveWeatherCache(weatherCache: WeatherCache): void {
+  try {
+    localStorage.setItem('weather-cache', JSON.stringify(weatherCache));
+  } catch (error) {
+    console.error('Error saving weather cache:', error);
+  }
+}
+
 // Clear the entire weather cache
 export function clearWeatherCache(): void {
   try {
@@ -305,7 +667,11 @@ export function saveSettings(settings: import('../types').UserSettings): void {
 }
 
 export function loadSettings(): import('../types').UserSettings {
-  const defaults = { forecastDate: new Date().toISOString().split('T')[0] };
+  const defaults = {
+    forecastDate: new Date().toISOString().split('T')[0],
+    elevationThreshold: DEFAULT_ELEVATION_THRESHOLD,
+    pace: DEFAULT_PACE_SETTINGS
+  };
   try {
     const saved = localStorage.getItem('user-settings');
     if (saved) {
@@ -329,37 +695,45 @@ export function calculateBounds(points: GpxPoint[]) {
   });
 }
 
-export function exportWeatherPdf(
-  track: ProcessedTrack,
-  title: string
-) {
-  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
-
-  doc.setFontSize(16);
-  doc.text(title, 40, 40);
-  doc.setFontSize(12);
-
-  let y = 80;
-  track.sampledPoints?.forEach((point, idx) => {
-    const weather = track.weatherData?.[idx];
-    if (!weather) return;
-    const altitude = point.ele != null ? `${point.ele.toFixed(0)} m` : 'N/A';
-    const rain = `${weather.rain_sum.toFixed(1)} mm`;
-    const temp = `${weather.apparent_temperature_min.toFixed(1)}-${weather.apparent_temperature_max.toFixed(1)}°C`;
-    const wind = `${weather.wind_speed_10m_max.toFixed(0)} km/h`;
-
-    doc.text(`Alt: ${altitude}`, 40, y);
-    doc.text(`Wind: ${wind}`, 140, y);
-    doc.text(`Rain: ${rain}`, 240, y);
-    doc.text(`Temp: ${temp}`, 340, y);
-    y += 20;
-    if (y > 780) {
-      doc.addPage();
-      y = 40;
+// One file name per track for the files inside a ZIP, unique and valid on
+// every system
+export function trackFileNames(tracks: ProcessedTrack[], extension: string): string[] {
+  const used = new Set<string>();
+  return tracks.map((track, idx) => {
+    const base = (track.name || '').replace(/[<>:"/\\|?*]/g, ' ').replace(/\s+/g, ' ').trim() || `Track ${idx + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base} ${n}`;
     }
+    used.add(name.toLowerCase());
+    return `${name}.${extension}`;
   });
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Format a duration in seconds as e.g. "3h 05m"
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes.toString().padStart(2, '0')}m` : `${minutes}m`;
+}
 
-  doc.save(`${title}.pdf`);
+// One-line forecast summary, e.g. "2024-06-01: 12.0-18.5°C, wind 20 km/h ↗, rain 0.4 mm"
+export function formatForecast(weather: WeatherData): string {
+  const temp = `${weather.apparent_temperature_min.toFixed(1)}-${weather.apparent_temperature_max.toFixed(1)}°C`;
+  const wind = `wind ${weather.wind_speed_10m_max.toFixed(0)} km/h ${windArrow(weather.wind_direction_10m_dominant)}`;
+  return `${weather.time}: ${temp}, ${wind}, rain ${weather.rain_sum.toFixed(1)} mm`;
 }
 
 export function windArrow(deg: number): string {
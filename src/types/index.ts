@@ -18,7 +18,60 @@ export interface GpxPoint {
   lon: number;
   ele?: number; // Elevation in meters
   time?: string;
+  hr?: number; // Heart rate in bpm
+  cad?: number; // Cadence in rpm
+  power?: number; // Power in watts
+  atemp?: number; // Ambient temperature in °C
   distance?: number; // Distance from start in kilometers
+  segment?: number; // Index of the <trkseg> the point belongs to (multi-segment tracks only)
+}
+
+export type WaypointCategory = 'water' | 'food' | 'ferry' | 'camp' | 'summit' | 'other';
+
+/** Point of interest imported from a GPX <wpt> */
+export interface Waypoint {
+  lat: number;
+  lon: number;
+  ele?: number; // Elevation in meters
+  name?: string;
+  description?: string;
+  /** GPX <sym>, e.g. "Drinking Water" */
+  symbol?: string;
+  /** GPX <type> */
+  type?: string;
+  category: WaypointCategory;
+  distance?: number; // Distance along the track of the closest track point, in kilometers
+}
+
+/** A single track or route read from an imported file, before weather is fetched */
+export interface ParsedTrack {
+  name?: string;
+  points: GpxPoint[];
+  waypoints?: Waypoint[];
+}
+
+/** Totals computed once when a track is imported */
+export interface TrackStats {
+  distance: number; // Total distance in kilometers
+  minElevation?: number;
+  maxElevation?: number;
+  /** Total climbing in meters, ignoring changes below the threshold */
+  ascent?: number;
+  /** Total descending in meters, ignoring changes below the threshold */
+  descent?: number;
+  /** Hysteresis in meters the ascent and descent were computed with */
+  elevationThreshold?: number;
+  /** Distance in kilometers per gradient band, see GRADIENT_BANDS */
+  gradientDistances?: number[];
+  /** Steepest grade in percent, measured over GRADIENT_WINDOW */
+  maxGrade?: number;
+  pointCount: number;
+}
+
+/** A parsed track with its weather points and statistics, ready to fetch weather for */
+export interface PreparedTrack extends ParsedTrack {
+  sampledPoints: GpxPoint[];
+  stats: TrackStats;
 }
 
 export interface ProcessedTrack {
@@ -27,9 +80,101 @@ export interface ProcessedTrack {
   createdAt: number; // timestamp
   updatedAt: number; // timestamp
   points: GpxPoint[];
+  waypoints?: Waypoint[];
+  group?: string; // folder of the archive the track was imported from
+  stats?: TrackStats;
   sampledPoints?: GpxPoint[];
   weatherData?: WeatherData[];
   weatherFetchedAt?: number; // timestamp when weather was last fetched
+  estimate?: PaceEstimate;
+}
+
+export type PaceModel = 'naismith' | 'tobler' | 'cycling';
+
+/** How fast planned tracks are expected to be covered */
+export interface PaceSettings {
+  model: PaceModel;
+  /** Speed on the flat in km/h */
+  flatSpeed: number;
+  /** Vertical meters per hour when climbing (Naismith and cycling) */
+  climbRate: number;
+  /** Minutes of breaks per hour of moving */
+  breakMinutes: number;
+}
+
+/** Time needed for a track according to a pace model */
+export interface PaceEstimate {
+  /** Settings the estimate was computed with */
+  settings: PaceSettings;
+  /** Seconds of moving, without breaks */
+  movingTime: number;
+  /** Seconds from start to finish, breaks included */
+  duration: number;
+  /** Seconds from the start to each sampled weather point, breaks included */
+  sampledPointTimes: number[];
+}
+
+// A file or URL queued for import
+export interface ImportSource {
+  source: File | string;
+  name: string;
+  group?: string;
+}
+
+export type ImportStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+/** Progress of one file in a multi-file import */
+export interface ImportProgressItem {
+  name: string;
+  status: ImportStatus;
+  /** Fraction of the processing done, from 0 to 1 */
+  progress?: number;
+  stage?: ImportStage;
+}
+
+export type ImportStage = 'reading' | 'parsing' | 'validating' | 'sampling' | 'statistics';
+
+/** Messages sent to the track worker */
+export type TrackWorkerRequest = {
+  type: 'process';
+  source: File | string;
+  elevationThreshold?: number;
+};
+
+/** Messages sent back by the track worker */
+export type TrackWorkerResponse =
+  | { type: 'progress'; stage: ImportStage; progress: number }
+  | { type: 'result'; tracks: PreparedTrack[]; warnings: string[] }
+  | { type: 'error'; message: string };
+
+/** Summary of a recorded track with timestamps */
+export interface ActivityStats {
+  /** Seconds between the first and the last timestamp */
+  elapsedTime: number;
+  /** Seconds spent above the moving speed threshold */
+  movingTime: number;
+  /** Average moving speed in km/h */
+  averageSpeed: number;
+  /** Maximum (smoothed) speed in km/h */
+  maxSpeed: number;
+  averageHr?: number;
+  maxHr?: number;
+  averageTemp?: number;
+  minTemp?: number;
+  maxTemp?: number;
+}
+
+/** A standstill of a recorded track, where auto-pause stopped the clock */
+export interface ActivityStop {
+  /** Index of the point the rider stopped at */
+  index: number;
+  lat: number;
+  lon: number;
+  distance: number; // km
+  /** Timestamp (ms) the stop began */
+  start: number;
+  /** Seconds stopped */
+  duration: number;
 }
 
 export interface DailyWeatherData {
@@ -49,7 +194,38 @@ export interface WeatherCache {
   };
 }
 
+/** When planned rides start, their duration comes from the pace estimate */
+export interface RideSchedule {
+  /** Day of the rides when a track has no forecast yet, ISO date (YYYY-MM-DD) */
+  forecastDate: string;
+  /** Local start time of every ride, "HH:mm" */
+  startTime?: string;
+}
+
 export interface UserSettings {
   /** ISO date (YYYY-MM-DD) for weather forecast */
   forecastDate: string;
+  /** Elevation changes smaller than this (meters) are treated as noise in the ascent and descent */
+  elevationThreshold: number;
+  pace: PaceSettings;
+}
+
+// Versioned snapshot of everything the app keeps in localStorage
+export interface WorkspaceBackup {
+  app: 'trailcast';
+  version: number;
+  createdAt: number; // timestamp
+  tracks: ProcessedTrack[];
+  settings: UserSettings;
+  theme?: 'dark' | 'light' | 'system';
+  weatherCache?: WeatherCache;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Tracks and forecast settings decoded from a share link
+export interface SharedPlan {
+  forecastDate: string;
+  tab?: string;
+  tracks: ParsedTrack[];
 }